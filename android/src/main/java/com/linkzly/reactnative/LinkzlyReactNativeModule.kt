@@ -389,6 +389,95 @@ class LinkzlyReactNativeModule(reactContext: ReactApplicationContext) :
         }
     }
 
+    // MARK: - Key-Value Storage (used by the JS layer for persisted SDK state)
+
+    private val storagePreferences by lazy {
+        reactAppContext.getSharedPreferences(STORAGE_PREFERENCES_NAME, android.content.Context.MODE_PRIVATE)
+    }
+
+    @ReactMethod
+    fun getStorageItem(key: String, promise: Promise) {
+        try {
+            promise.resolve(storagePreferences.getString(key, null))
+        } catch (e: Exception) {
+            promise.reject("STORAGE_ERROR", e.message, e)
+        }
+    }
+
+    @ReactMethod
+    fun setStorageItem(key: String, value: String, promise: Promise) {
+        try {
+            storagePreferences.edit().putString(key, value).apply()
+            val result = Arguments.createMap()
+            result.putBoolean("success", true)
+            promise.resolve(result)
+        } catch (e: Exception) {
+            promise.reject("STORAGE_ERROR", e.message, e)
+        }
+    }
+
+    @ReactMethod
+    fun removeStorageItem(key: String, promise: Promise) {
+        try {
+            storagePreferences.edit().remove(key).apply()
+            val result = Arguments.createMap()
+            result.putBoolean("success", true)
+            promise.resolve(result)
+        } catch (e: Exception) {
+            promise.reject("STORAGE_ERROR", e.message, e)
+        }
+    }
+
+    // MARK: - Link Resolution (used by the JS layer's resolveLink)
+
+    /**
+     * Expand a short link by following its HTTP redirects without opening the
+     * destination. Stops at the first non-redirect response or non-HTTP URL
+     * (e.g. an app scheme) and resolves with that URL.
+     */
+    @ReactMethod
+    fun resolveLink(urlString: String, promise: Promise) {
+        Thread {
+            try {
+                var current = urlString
+                for (hop in 0 until MAX_RESOLVE_REDIRECTS) {
+                    val scheme = android.net.Uri.parse(current).scheme?.lowercase()
+                    if (scheme != "http" && scheme != "https") {
+                        break
+                    }
+
+                    val connection = java.net.URL(current).openConnection() as java.net.HttpURLConnection
+                    val location: String?
+                    val status: Int
+                    try {
+                        connection.instanceFollowRedirects = false
+                        connection.connectTimeout = RESOLVE_TIMEOUT_MS
+                        connection.readTimeout = RESOLVE_TIMEOUT_MS
+                        status = connection.responseCode
+                        location = connection.getHeaderField("Location")
+                    } finally {
+                        connection.disconnect()
+                    }
+
+                    if (status in 300..399 && location != null) {
+                        current = java.net.URI(current).resolve(location).toString()
+                    } else if (status >= 400) {
+                        promise.reject("RESOLVE_LINK_ERROR", "Link could not be resolved: HTTP $status")
+                        return@Thread
+                    } else {
+                        break
+                    }
+                }
+
+                val result = Arguments.createMap()
+                result.putString("url", current)
+                promise.resolve(result)
+            } catch (e: Exception) {
+                promise.reject("RESOLVE_LINK_ERROR", e.message, e)
+            }
+        }.start()
+    }
+
     // MARK: - Debug APIs (Only available in DEBUG builds)
 
     @ReactMethod
@@ -576,6 +665,10 @@ class LinkzlyReactNativeModule(reactContext: ReactApplicationContext) :
     }
 
     companion object {
+        private const val STORAGE_PREFERENCES_NAME = "linkzly_react_native"
+        private const val MAX_RESOLVE_REDIRECTS = 10
+        private const val RESOLVE_TIMEOUT_MS = 10000
+
         private var latestInstance: LinkzlyReactNativeModule? = null
 
         fun getLatestInstance(): LinkzlyReactNativeModule? {
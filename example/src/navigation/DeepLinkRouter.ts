@@ -158,33 +158,6 @@ class DeepLinkRouter {
   getCurrentDeepLinkData(): DeepLinkData | null {
     return this.currentDeepLinkData;
   }
-
-  getAttributionParameters(): Record<string, any> {
-    if (!this.currentDeepLinkData) {
-      return {};
-    }
-
-    const params: Record<string, any> = {};
-    const data = this.currentDeepLinkData;
-
-    if (data.parameters?.utm_source) {
-      params.utm_source = data.parameters.utm_source;
-    }
-    if (data.parameters?.utm_medium) {
-      params.utm_medium = data.parameters.utm_medium;
-    }
-    if (data.parameters?.utm_campaign) {
-      params.utm_campaign = data.parameters.utm_campaign;
-    }
-    if (data.clickId) {
-      params.click_id = data.clickId;
-    }
-    if (data.smartLinkId) {
-      params.smart_link_id = data.smartLinkId;
-    }
-
-    return params;
-  }
 }
 
 export default DeepLinkRouter.getInstance();
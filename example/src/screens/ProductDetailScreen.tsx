@@ -64,9 +64,6 @@ const ProductDetailScreen = () => {
       screen: 'product_detail',
     };
 
-    const attributionParams = DeepLinkRouter.getAttributionParameters();
-    Object.assign(params, attributionParams);
-
     LinkzlySDK.trackEvent('product_viewed', params);
   };
 
@@ -84,9 +81,6 @@ const ProductDetailScreen = () => {
       screen: 'product_detail',
     };
 
-    const attributionParams = DeepLinkRouter.getAttributionParameters();
-    Object.assign(params, attributionParams);
-
     LinkzlySDK.trackEvent('add_to_cart', params);
   };
 
@@ -105,9 +99,6 @@ const ProductDetailScreen = () => {
       screen: 'product_detail',
     };
 
-    const attributionParams = DeepLinkRouter.getAttributionParameters();
-    Object.assign(params, attributionParams);
-
     // Track purchase using the new trackPurchase() method
     try {
       await LinkzlySDK.trackPurchase(params);
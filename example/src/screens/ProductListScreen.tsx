@@ -11,7 +11,6 @@ import {
 import {useNavigation, useIsFocused} from '@react-navigation/native';
 import LinkzlySDK from '@linkzly/react-native-sdk';
 import ProductService from '../services/ProductService';
-import DeepLinkRouter from '../navigation/DeepLinkRouter';
 import {Product, ProductHelper} from '../models/Product';
 
 const ProductListScreen = () => {
@@ -51,9 +50,6 @@ const ProductListScreen = () => {
       product_count: products.length,
     };
 
-    const attributionParams = DeepLinkRouter.getAttributionParameters();
-    Object.assign(params, attributionParams);
-
     LinkzlySDK.trackEvent('product_list_viewed', params);
   };
 
@@ -422,6 +422,101 @@ public class LinkzlyReactNativeSwift: NSObject {
         resolver(count)
     }
 
+    // MARK: - Key-Value Storage (used by the JS layer for persisted SDK state)
+
+    private static let storageKeyPrefix = "linkzly_react_native_"
+
+    @objc(getStorageItemWithKey:resolver:rejecter:)
+    public static func getStorageItem(
+        key: String,
+        resolver: @escaping RCTPromiseResolveBlock,
+        rejecter: @escaping RCTPromiseRejectBlock
+    ) {
+        let value = UserDefaults.standard.string(forKey: storageKeyPrefix + key)
+        resolver(value ?? NSNull())
+    }
+
+    @objc(setStorageItemWithKey:value:resolver:rejecter:)
+    public static func setStorageItem(
+        key: String,
+        value: String,
+        resolver: @escaping RCTPromiseResolveBlock,
+        rejecter: @escaping RCTPromiseRejectBlock
+    ) {
+        UserDefaults.standard.set(value, forKey: storageKeyPrefix + key)
+        resolver(["success": true])
+    }
+
+    @objc(removeStorageItemWithKey:resolver:rejecter:)
+    public static func removeStorageItem(
+        key: String,
+        resolver: @escaping RCTPromiseResolveBlock,
+        rejecter: @escaping RCTPromiseRejectBlock
+    ) {
+        UserDefaults.standard.removeObject(forKey: storageKeyPrefix + key)
+        resolver(["success": true])
+    }
+
+    // MARK: - Link Resolution (used by the JS layer's resolveLink)
+
+    private static let maxResolveRedirects = 10
+
+    private static let resolveSession: URLSession = {
+        let configuration = URLSessionConfiguration.ephemeral
+        configuration.timeoutIntervalForRequest = 10
+        return URLSession(configuration: configuration, delegate: RedirectBlocker(), delegateQueue: nil)
+    }()
+
+    /// Expand a short link by following its HTTP redirects without opening the
+    /// destination. Stops at the first non-redirect response or non-HTTP URL
+    /// (e.g. an app scheme) and resolves with that URL.
+    @objc(resolveLinkWithUrl:resolver:rejecter:)
+    public static func resolveLink(
+        url: String,
+        resolver: @escaping RCTPromiseResolveBlock,
+        rejecter: @escaping RCTPromiseRejectBlock
+    ) {
+        guard let linkURL = URL(string: url) else {
+            rejecter("RESOLVE_LINK_ERROR", "Invalid URL: \(url)", nil)
+            return
+        }
+        followRedirects(from: linkURL, hops: 0, resolver: resolver, rejecter: rejecter)
+    }
+
+    private static func followRedirects(
+        from url: URL,
+        hops: Int,
+        resolver: @escaping RCTPromiseResolveBlock,
+        rejecter: @escaping RCTPromiseRejectBlock
+    ) {
+        let scheme = url.scheme?.lowercased()
+        guard hops < maxResolveRedirects, scheme == "http" || scheme == "https" else {
+            resolver(["url": url.absoluteString])
+            return
+        }
+
+        resolveSession.dataTask(with: url) { _, response, error in
+            if let error = error {
+                rejecter("RESOLVE_LINK_ERROR", error.localizedDescription, error)
+                return
+            }
+            guard let httpResponse = response as? HTTPURLResponse else {
+                resolver(["url": url.absoluteString])
+                return
+            }
+
+            if (300...399).contains(httpResponse.statusCode),
+               let location = httpResponse.allHeaderFields["Location"] as? String,
+               let next = URL(string: location, relativeTo: url)?.absoluteURL {
+                followRedirects(from: next, hops: hops + 1, resolver: resolver, rejecter: rejecter)
+            } else if httpResponse.statusCode >= 400 {
+                rejecter("RESOLVE_LINK_ERROR", "Link could not be resolved: HTTP \(httpResponse.statusCode)", nil)
+            } else {
+                resolver(["url": url.absoluteString])
+            }
+        }.resume()
+    }
+
     // MARK: - Debug APIs (Only available in DEBUG builds)
 
     @objc(debugSetBatchingStrategyWithStrategy:resolver:rejecter:)
@@ -498,3 +593,16 @@ public class LinkzlyReactNativeSwift: NSObject {
         NotificationCenter.default.removeObserver(self)
     }
 }
+
+/// Stops URLSession from following redirects so each hop's Location can be read
+private final class RedirectBlocker: NSObject, URLSessionTaskDelegate {
+    func urlSession(
+        _ session: URLSession,
+        task: URLSessionTask,
+        willPerformHTTPRedirection response: HTTPURLResponse,
+        newRequest request: URLRequest,
+        completionHandler: @escaping (URLRequest?) -> Void
+    ) {
+        completionHandler(nil)
+    }
+}
@@ -156,6 +156,40 @@ RCT_EXPORT_METHOD(getPendingEventCount : (RCTPromiseResolveBlock)
                                                    rejecter:reject];
 }
 
+// MARK: - Key-Value Storage
+
+RCT_EXPORT_METHOD(getStorageItem : (NSString *)key resolver : (
+    RCTPromiseResolveBlock)resolve rejecter : (RCTPromiseRejectBlock)reject) {
+  [LinkzlyReactNativeSwift getStorageItemWithKey:key
+                                        resolver:resolve
+                                        rejecter:reject];
+}
+
+RCT_EXPORT_METHOD(setStorageItem : (NSString *)key value : (NSString *)
+                      value resolver : (RCTPromiseResolveBlock)
+                          resolve rejecter : (RCTPromiseRejectBlock)reject) {
+  [LinkzlyReactNativeSwift setStorageItemWithKey:key
+                                           value:value
+                                        resolver:resolve
+                                        rejecter:reject];
+}
+
+RCT_EXPORT_METHOD(removeStorageItem : (NSString *)key resolver : (
+    RCTPromiseResolveBlock)resolve rejecter : (RCTPromiseRejectBlock)reject) {
+  [LinkzlyReactNativeSwift removeStorageItemWithKey:key
+                                           resolver:resolve
+                                           rejecter:reject];
+}
+
+// MARK: - Link Resolution
+
+RCT_EXPORT_METHOD(resolveLink : (NSString *)url resolver : (
+    RCTPromiseResolveBlock)resolve rejecter : (RCTPromiseRejectBlock)reject) {
+  [LinkzlyReactNativeSwift resolveLinkWithUrl:url
+                                     resolver:resolve
+                                     rejecter:reject];
+}
+
 // MARK: - Debug APIs (Only available in DEBUG builds)
 
 RCT_EXPORT_METHOD(debugSetBatchingStrategy : (NSString *)strategy resolver : (
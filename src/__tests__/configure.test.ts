@@ -0,0 +1,81 @@
+import type { default as LinkzlySDKInstance } from '../sdk';
+
+const mockNative = {
+  addListener: jest.fn(),
+  removeListeners: jest.fn(),
+  configure: jest.fn(),
+  trackOpen: jest.fn(),
+  handleAppLink: jest.fn(),
+};
+
+jest.mock('react-native', () => {
+  const ReactNative = jest.requireActual('react-native');
+  ReactNative.NativeModules.LinkzlyReactNative = mockNative;
+  return ReactNative;
+});
+
+let LinkzlySDK: typeof LinkzlySDKInstance;
+
+beforeEach(() => {
+  jest.resetModules();
+  mockNative.configure.mockReset().mockResolvedValue({ success: true });
+  mockNative.trackOpen.mockReset().mockResolvedValue(null);
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  // Storage warns that it falls back to memory without the native module
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  const { Linking, Platform } = require('react-native');
+  Platform.OS = 'android';
+  Linking.getInitialURL.mockResolvedValue(null);
+  Linking.addEventListener.mockReturnValue({ remove: jest.fn() });
+  LinkzlySDK = require('../sdk').default;
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('configure', () => {
+  it('shares an in-flight call instead of configuring again', async () => {
+    const first = LinkzlySDK.configure('key', 0);
+    const second = LinkzlySDK.configure('key', 0);
+
+    expect(second).toBe(first);
+    await Promise.all([first, second]);
+    expect(mockNative.configure).toHaveBeenCalledTimes(1);
+    expect(mockNative.trackOpen).toHaveBeenCalledTimes(1);
+    expect(LinkzlySDK.isSDKConfigured()).toBe(true);
+  });
+
+  it('can be retried after a failed call', async () => {
+    mockNative.configure.mockRejectedValueOnce(new Error('offline'));
+
+    await expect(LinkzlySDK.configure('key', 0)).rejects.toThrow('offline');
+    await LinkzlySDK.configure('key', 0);
+    expect(mockNative.configure).toHaveBeenCalledTimes(2);
+    expect(LinkzlySDK.isSDKConfigured()).toBe(true);
+  });
+});
+
+describe('links before configure', () => {
+  it('are queued and replayed in arrival order', async () => {
+    const { Linking } = require('react-native');
+    const [[, emitUrl]] = Linking.addEventListener.mock.calls;
+    mockNative.handleAppLink.mockImplementation(async (url: string) => ({
+      url,
+      path: '/',
+      parameters: {},
+    }));
+    const received: string[] = [];
+    LinkzlySDK.addDeepLinkListener((data) => {
+      received.push(data.url!);
+    });
+
+    emitUrl({ url: 'myapp://first' });
+    emitUrl({ url: 'myapp://second' });
+    expect(mockNative.handleAppLink).not.toHaveBeenCalled();
+
+    await LinkzlySDK.configure('key', 0);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(received).toEqual(['myapp://first', 'myapp://second']);
+  });
+});
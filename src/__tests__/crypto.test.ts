@@ -0,0 +1,114 @@
+import {
+  hmacSha256,
+  hmacSha256Hex,
+  sha256,
+  timingSafeEqual,
+  utf8Encode,
+} from '../crypto';
+
+const bytes = (length: number, value: number) =>
+  new Array<number>(length).fill(value);
+const toHex = (digest: number[]) =>
+  digest.map((byte) => byte.toString(16).padStart(2, '0')).join('');
+
+describe('sha256', () => {
+  it.each([
+    ['', 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'],
+    ['abc', 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'],
+    [
+      'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq',
+      '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1',
+    ],
+  ])('hashes %j', (message, digest) => {
+    expect(toHex(sha256(utf8Encode(message)))).toBe(digest);
+  });
+});
+
+// RFC 4231 section 4
+describe('hmacSha256', () => {
+  const largeKey = bytes(131, 0xaa);
+
+  it.each([
+    [
+      'test case 1',
+      bytes(20, 0x0b),
+      utf8Encode('Hi There'),
+      'b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7',
+    ],
+    [
+      'test case 2',
+      utf8Encode('Jefe'),
+      utf8Encode('what do ya want for nothing?'),
+      '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843',
+    ],
+    [
+      'test case 3',
+      bytes(20, 0xaa),
+      bytes(50, 0xdd),
+      '773ea91e36800e46854db8ebd09181a72959098b3ef8c122d9635514ced565fe',
+    ],
+    [
+      'test case 4',
+      Array.from({ length: 25 }, (_, i) => i + 1),
+      bytes(50, 0xcd),
+      '82558a389a443c0ea4cc819899f2083a85f0faa3e578f8077a2e3ff46729665b',
+    ],
+    [
+      'test case 6 (key larger than the block size)',
+      largeKey,
+      utf8Encode('Test Using Larger Than Block-Size Key - Hash Key First'),
+      '60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54',
+    ],
+    [
+      'test case 7 (key and data larger than the block size)',
+      largeKey,
+      utf8Encode(
+        'This is a test using a larger than block-size key and a larger than block-size data. The key needs to be hashed before being used by the HMAC algorithm.'
+      ),
+      '9b09ffa71b942fcb27635fbcd5b0e944bfdc63644f0713938a7f51535c3a35e2',
+    ],
+  ])('matches %s', (_, key, data, digest) => {
+    expect(toHex(hmacSha256(key, data))).toBe(digest);
+  });
+
+  it('matches test case 5 (truncated to 128 bits)', () => {
+    const digest = toHex(
+      hmacSha256(bytes(20, 0x0c), utf8Encode('Test With Truncation'))
+    );
+    expect(digest.slice(0, 32)).toBe('a3b6167473100ee06e0c796c2955552b');
+  });
+
+  it('does not modify the key', () => {
+    const key = utf8Encode('Jefe');
+    hmacSha256(key, []);
+    expect(key).toEqual(utf8Encode('Jefe'));
+  });
+});
+
+describe('hmacSha256Hex', () => {
+  it('UTF-8 encodes the key and message', () => {
+    expect(hmacSha256Hex('Jefe', 'what do ya want for nothing?')).toBe(
+      '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'
+    );
+    expect(hmacSha256Hex('clé', '/p/ü?x=✓')).toBe(
+      '410b659ad1eb93bcf0bba856d6759eec6bf8abaf4ebefbeeddd123d593c66615'
+    );
+  });
+});
+
+describe('utf8Encode', () => {
+  it('encodes multi-byte characters and surrogate pairs', () => {
+    expect(utf8Encode('aé€😀')).toEqual([
+      0x61, 0xc3, 0xa9, 0xe2, 0x82, 0xac, 0xf0, 0x9f, 0x98, 0x80,
+    ]);
+  });
+});
+
+describe('timingSafeEqual', () => {
+  it('compares strings', () => {
+    expect(timingSafeEqual('abc', 'abc')).toBe(true);
+    expect(timingSafeEqual('abc', 'abd')).toBe(false);
+    expect(timingSafeEqual('abc', 'abcd')).toBe(false);
+    expect(timingSafeEqual('', '')).toBe(true);
+  });
+});
@@ -0,0 +1,61 @@
+import type { DeepLinkData } from '../sdk';
+import { createNavigationLinking } from '../navigation';
+
+type Listener = (data: DeepLinkData, ack: () => void) => void;
+
+function link(url: string): DeepLinkData {
+  return { url, path: '/', parameters: {} };
+}
+
+function setup() {
+  const listeners = new Set<Listener>();
+  const linking = createNavigationLinking((listener) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  });
+  const emit = (data: DeepLinkData) => {
+    const ack = jest.fn();
+    listeners.forEach((listener) => listener(data, ack));
+    return ack;
+  };
+  return { linking, listeners, emit };
+}
+
+describe('createNavigationLinking', () => {
+  it('acks links once they are handed to React Navigation', async () => {
+    const { linking, emit } = setup();
+    const initialAck = emit(link('myapp://first'));
+    const queuedAck = emit(link('myapp://second'));
+    expect(initialAck).not.toHaveBeenCalled();
+
+    await expect(linking.getInitialURL()).resolves.toBe('myapp://first');
+    expect(initialAck).toHaveBeenCalledTimes(1);
+
+    const urls: string[] = [];
+    const unsubscribe = linking.subscribe((url) => urls.push(url));
+    const liveAck = emit(link('myapp://third'));
+    expect(urls).toEqual(['myapp://second', 'myapp://third']);
+    expect(queuedAck).toHaveBeenCalledTimes(1);
+    expect(liveAck).toHaveBeenCalledTimes(1);
+    unsubscribe();
+  });
+
+  it('does not ack links without a URL for React Navigation', () => {
+    const { linking, emit } = setup();
+    linking.subscribe(() => {});
+    expect(emit({ path: '/', parameters: {} })).not.toHaveBeenCalled();
+  });
+
+  it('stops listening to the SDK when disposed', () => {
+    const { linking, listeners, emit } = setup();
+    const listener = jest.fn();
+    emit(link('myapp://queued'));
+
+    linking.dispose();
+    linking.subscribe(listener);
+    emit(link('myapp://later'));
+
+    expect(listeners.size).toBe(0);
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,219 @@
+import type { default as LinkzlySDKInstance } from '../sdk';
+import {
+  DEFAULT_EVENT_VALIDATION,
+  normalizeEvent,
+  normalizeReservedEventParameters,
+  normalizeSuperProperties,
+  RESERVED_EVENT_NAMES,
+} from '../normalize';
+
+const mockNative = {
+  addListener: jest.fn(),
+  removeListeners: jest.fn(),
+  configure: jest.fn(),
+  trackOpen: jest.fn(),
+  trackEvent: jest.fn(),
+  trackPurchase: jest.fn(),
+};
+
+jest.mock('react-native', () => {
+  const ReactNative = jest.requireActual('react-native');
+  ReactNative.NativeModules.LinkzlyReactNative = mockNative;
+  return ReactNative;
+});
+
+const options = { ...DEFAULT_EVENT_VALIDATION, maxParameters: 2 };
+
+describe('normalizeEvent', () => {
+  it.each([...RESERVED_EVENT_NAMES, 'Purchase', 'linkzly_custom'])(
+    'rejects the reserved name %j',
+    (name) => {
+      const { event, issues } = normalizeEvent(name, {}, options);
+      expect(event).toBeNull();
+      expect(issues).toMatchObject([{ code: 'reserved_name' }]);
+    }
+  );
+
+  it('rejects empty and overlong names and trims the rest', () => {
+    const limits = { ...options, maxNameLength: 5 };
+    expect(normalizeEvent(' ', {}, limits).issues).toMatchObject([
+      { code: 'invalid_name' },
+    ]);
+    expect(normalizeEvent('sharing', {}, limits).issues).toMatchObject([
+      { code: 'invalid_name' },
+    ]);
+    expect(normalizeEvent(' share ', {}, limits).event?.eventName).toBe(
+      'share'
+    );
+  });
+
+  it('keeps the first parameters up to the limit', () => {
+    const { event, issues } = normalizeEvent(
+      'share',
+      { a: 1, b: 2, c: 3 },
+      options
+    );
+    expect(event?.parameters).toEqual({ a: 1, b: 2 });
+    expect(issues).toMatchObject([{ code: 'too_many_parameters' }]);
+  });
+
+  it('drops keys over the length limit', () => {
+    const { event, issues } = normalizeEvent(
+      'share',
+      { abc: 1, abcdef: 2 },
+      { ...options, maxKeyLength: 3 }
+    );
+    expect(event?.parameters).toEqual({ abc: 1 });
+    expect(issues).toMatchObject([{ key: 'abcdef', code: 'key_too_long' }]);
+  });
+
+  it('converts dates and drops values the bridge cannot carry', () => {
+    const { event, issues } = normalizeEvent(
+      'share',
+      {
+        at: new Date(Date.UTC(2026, 0, 1)),
+        nested: { list: [1, undefined, new Date(0)], bad: NaN },
+      },
+      options
+    );
+    expect(event?.parameters).toEqual({
+      at: '2026-01-01T00:00:00.000Z',
+      nested: { list: [1, '1970-01-01T00:00:00.000Z'] },
+    });
+    expect(issues.map((issue) => issue.key)).toEqual([
+      'nested.list.1',
+      'nested.bad',
+    ]);
+  });
+
+  it('drops invalid dates and values nested too deeply', () => {
+    const { event, issues } = normalizeEvent(
+      'share',
+      { when: new Date(NaN), deep: { a: { b: { c: {} } } } },
+      options
+    );
+    expect(event?.parameters).toEqual({ deep: { a: { b: {} } } });
+    expect(issues.map((issue) => issue.key)).toEqual(['when', 'deep.a.b.c']);
+  });
+});
+
+describe('normalizeReservedEventParameters', () => {
+  it('normalizes parameters without rejecting the name', () => {
+    const { parameters, issues } = normalizeReservedEventParameters(
+      'purchase',
+      { at: new Date(0), fn: () => {} },
+      options,
+      { plan: 'pro' }
+    );
+    expect(parameters).toEqual({ plan: 'pro', at: '1970-01-01T00:00:00.000Z' });
+    expect(issues).toMatchObject([{ eventName: 'purchase', key: 'fn' }]);
+  });
+});
+
+describe('normalizeEvent context', () => {
+  it('limits the event parameters before adding the context', () => {
+    const { event, issues } = normalizeEvent('share', { a: 1, b: 2 }, options, {
+      plan: 'pro',
+      utm_source: 'mail',
+    });
+
+    expect(issues).toEqual([]);
+    expect(event?.parameters).toEqual({
+      plan: 'pro',
+      utm_source: 'mail',
+      a: 1,
+      b: 2,
+    });
+  });
+
+  it('lets event parameters override the context', () => {
+    const { event } = normalizeEvent('share', { plan: 'free' }, options, {
+      plan: 'pro',
+    });
+    expect(event?.parameters).toEqual({ plan: 'free' });
+  });
+});
+
+describe('normalizeSuperProperties', () => {
+  it('drops invalid values without limiting the count', () => {
+    const { properties, issues } = normalizeSuperProperties(
+      { a: 1, b: new Date(0), c: NaN },
+      options
+    );
+
+    expect(properties).toEqual({ a: 1, b: '1970-01-01T00:00:00.000Z' });
+    expect(issues).toEqual([
+      {
+        eventName: undefined,
+        key: 'c',
+        code: 'unsupported_value',
+        message:
+          'Dropped "c" from super properties: NaN and Infinity are not supported (number)',
+      },
+    ]);
+  });
+});
+
+describe('validation modes', () => {
+  let LinkzlySDK: typeof LinkzlySDKInstance;
+
+  beforeEach(() => {
+    jest.resetModules();
+    Object.values(mockNative).forEach((mock) => mock.mockReset());
+    mockNative.configure.mockResolvedValue({ success: true });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    LinkzlySDK = require('../sdk').default;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('drops invalid values with a warning in lenient mode', async () => {
+    await LinkzlySDK.configure('key', 0, { autoTrackAppOpens: false });
+    await LinkzlySDK.trackEvent('share', { target: undefined, count: 2 });
+
+    expect(mockNative.trackEvent).toHaveBeenCalledWith('share', { count: 2 });
+    expect(console.warn).toHaveBeenCalledWith(
+      '[LinkzlySDK] Dropped "target" from "share": value is undefined (undefined)'
+    );
+  });
+
+  it('throws and sends nothing in strict mode', async () => {
+    await LinkzlySDK.configure('key', 0, {
+      autoTrackAppOpens: false,
+      eventValidation: { mode: 'strict' },
+    });
+
+    // Matched by name: the SDK is loaded after resetModules(), so its error
+    // class isn't the one imported here
+    await expect(
+      LinkzlySDK.trackEvent('share', { target: undefined })
+    ).rejects.toMatchObject({ name: 'EventValidationError' });
+    await expect(
+      LinkzlySDK.trackPurchase({
+        currency: 'USD',
+        amount: 5,
+        parameters: { coupon: NaN },
+      })
+    ).rejects.toMatchObject({ name: 'EventValidationError' });
+    await expect(
+      LinkzlySDK.registerSuperProperties({ plan: undefined })
+    ).rejects.toMatchObject({ name: 'EventValidationError' });
+    expect(mockNative.trackEvent).not.toHaveBeenCalled();
+    expect(mockNative.trackPurchase).not.toHaveBeenCalled();
+  });
+
+  it('normalizes purchase parameters', async () => {
+    await LinkzlySDK.configure('key', 0, { autoTrackAppOpens: false });
+    await LinkzlySDK.registerSuperProperties({ plan: 'pro' });
+    await LinkzlySDK.trackPurchase({ amount: 5, placed_at: new Date(0) });
+
+    expect(mockNative.trackPurchase).toHaveBeenCalledWith({
+      plan: 'pro',
+      amount: 5,
+      placed_at: '1970-01-01T00:00:00.000Z',
+    });
+  });
+});
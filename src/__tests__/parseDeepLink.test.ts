@@ -0,0 +1,61 @@
+import LinkzlySDK, { DeepLinkData } from '../index';
+
+jest.mock('react-native', () => {
+  const ReactNative = jest.requireActual('react-native');
+  ReactNative.NativeModules.LinkzlyReactNative = {
+    addListener: jest.fn(),
+    removeListeners: jest.fn(),
+  };
+  return ReactNative;
+});
+
+// Private parser behind processDeepLink
+const { parseUrlToDeepLinkData } = LinkzlySDK as unknown as {
+  parseUrlToDeepLinkData(url: string): DeepLinkData;
+};
+const parse = (url: string) => parseUrlToDeepLinkData.call(LinkzlySDK, url);
+
+describe('parseUrlToDeepLinkData', () => {
+  it('keeps "=" in values, decodes "+" and splits off the fragment', () => {
+    expect(
+      parse(
+        'https://link.example.com/promo?token=YWJj%3D%3D&next=https://shop.example.com/?a=b&q=red+shoes#terms'
+      )
+    ).toMatchObject({
+      scheme: 'https',
+      host: 'link.example.com',
+      path: '/promo',
+      fragment: 'terms',
+      parameters: {
+        token: 'YWJj==',
+        next: 'https://shop.example.com/?a=b',
+        q: 'red shoes',
+      },
+    });
+  });
+
+  it('keeps empty-valued keys', () => {
+    expect(parse('myapp://cart?promo=').parameters).toEqual({ promo: '' });
+  });
+
+  it('keeps every value of repeated and array parameters', () => {
+    const data = parse('myapp://catalog?tag=a&tag=b&ids[]=1&ids[]=2');
+    expect(data.parameters).toEqual({ tag: 'b', ids: ['1', '2'] });
+    expect(data.parameterValues).toEqual({ tag: ['a', 'b'], ids: ['1', '2'] });
+  });
+
+  it('moves attribution IDs out of the parameters', () => {
+    const data = parse('https://link.example.com/p?slid=sl_1&cid=c_1&x=1');
+    expect(data.smartLinkId).toBe('sl_1');
+    expect(data.clickId).toBe('c_1');
+    expect(data.parameters).toEqual({ x: '1' });
+    expect(data.parameterValues).toEqual({ x: ['1'] });
+  });
+
+  it('parses keys named like Object.prototype members', () => {
+    expect(parse('myapp://p?constructor=a&toString=b').parameters).toEqual({
+      constructor: 'a',
+      toString: 'b',
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import {
+  isCurrencyCode,
+  Purchase,
+  PurchaseValidationError,
+  validatePurchase,
+} from '../purchase';
+
+function issuesOf(purchase: Purchase) {
+  const result = validatePurchase(purchase);
+  if (result.success) {
+    throw new Error('Expected the purchase to be invalid');
+  }
+  return result.error.issues;
+}
+
+describe('validatePurchase', () => {
+  it('totals line items in minor units', () => {
+    const result = validatePurchase({
+      currency: 'usd',
+      items: [
+        { sku: 'shirt', quantity: 3, unitPrice: 0.1 },
+        { sku: 'socks', quantity: 2, unitPrice: 4.5, name: 'Socks' },
+      ],
+      tax: 1.01,
+      shipping: 4.99,
+      discount: 2,
+      transactionId: 'order_1',
+    });
+
+    expect(result).toEqual({
+      success: true,
+      value: {
+        currency: 'USD',
+        amount: 13.3,
+        revenue: 13.3,
+        revenue_minor: 1330,
+        subtotal: 9.3,
+        subtotal_minor: 930,
+        tax: 1.01,
+        tax_minor: 101,
+        shipping: 4.99,
+        shipping_minor: 499,
+        discount: 2,
+        discount_minor: 200,
+        items: [
+          { sku: 'shirt', quantity: 3, unit_price: 0.1, unit_price_minor: 10 },
+          {
+            sku: 'socks',
+            quantity: 2,
+            unit_price: 4.5,
+            unit_price_minor: 450,
+            name: 'Socks',
+          },
+        ],
+        transaction_id: 'order_1',
+      },
+    });
+  });
+
+  it.each([
+    ['JPY', 1200.4, 1200, 1200],
+    ['KWD', 1.2345, 1.235, 1235],
+    ['CLF', 0.12345, 0.1235, 1235],
+  ])('uses the minor unit of %s', (currency, amount, revenue, revenueMinor) => {
+    const result = validatePurchase({ currency, amount });
+    expect(result).toMatchObject({
+      success: true,
+      value: { revenue, revenue_minor: revenueMinor },
+    });
+  });
+
+  it('keeps custom parameters without overriding computed fields', () => {
+    const result = validatePurchase({
+      currency: 'EUR',
+      amount: 5,
+      parameters: { coupon: 'SPRING', revenue: 1 },
+      channel: 'web',
+    } as Purchase);
+
+    expect(result).toMatchObject({
+      success: true,
+      value: { coupon: 'SPRING', channel: 'web', revenue: 5 },
+    });
+  });
+
+  it('rejects items together with amount', () => {
+    expect(
+      issuesOf({
+        currency: 'USD',
+        amount: 10,
+        items: [{ sku: 'a', quantity: 1, unitPrice: 10 }],
+      })
+    ).toMatchObject([{ field: 'amount', code: 'conflict' }]);
+  });
+
+  it('rejects a discount larger than the total', () => {
+    expect(
+      issuesOf({ currency: 'USD', amount: 10, tax: 1, discount: 11.01 })
+    ).toMatchObject([{ field: 'discount', code: 'invalid_amount' }]);
+    expect(
+      validatePurchase({ currency: 'USD', amount: 10, discount: 10 })
+    ).toMatchObject({
+      success: true,
+      value: { revenue_minor: 0 },
+    });
+  });
+
+  it('reports every issue at once', () => {
+    expect(
+      issuesOf({
+        currency: 'XYZ',
+        items: [
+          { sku: '', quantity: 1.5, unitPrice: -1 },
+          { sku: 'b', quantity: 0, unitPrice: NaN },
+        ],
+        tax: Infinity,
+        transactionId: '',
+      }).map(({ field, code }) => [field, code])
+    ).toEqual([
+      ['currency', 'invalid_currency'],
+      ['items[0].sku', 'missing'],
+      ['items[0].quantity', 'invalid_quantity'],
+      ['items[0].unitPrice', 'invalid_amount'],
+      ['items[1].quantity', 'invalid_quantity'],
+      ['items[1].unitPrice', 'invalid_amount'],
+      ['tax', 'invalid_amount'],
+      ['transactionId', 'invalid_type'],
+    ]);
+  });
+
+  it.each([
+    [{ amount: 1 }, 'currency', 'missing'],
+    [{ currency: 'USD' }, 'amount', 'missing'],
+    [{ currency: 'USD', items: [] }, 'items', 'missing'],
+    [{ currency: 'USD', items: {} }, 'items', 'invalid_type'],
+  ])('rejects %j', (purchase, field, code) => {
+    expect(issuesOf(purchase as Purchase)).toMatchObject([{ field, code }]);
+  });
+
+  it('returns a PurchaseValidationError listing the issues', () => {
+    const result = validatePurchase({ currency: 'USD', amount: -1 });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBeInstanceOf(PurchaseValidationError);
+      expect(result.error.message).toBe(
+        'Invalid purchase: amount must be a non-negative number, got -1'
+      );
+    }
+  });
+});
+
+describe('isCurrencyCode', () => {
+  it('accepts active ISO 4217 codes in any case', () => {
+    expect(isCurrencyCode('usd')).toBe(true);
+    expect(isCurrencyCode('CLF')).toBe(true);
+    expect(isCurrencyCode('XYZ')).toBe(false);
+    expect(isCurrencyCode(840)).toBe(false);
+  });
+});
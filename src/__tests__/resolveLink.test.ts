@@ -0,0 +1,71 @@
+import { NativeModules } from 'react-native';
+import LinkzlySDK from '../index';
+
+jest.mock('react-native', () => {
+  const ReactNative = jest.requireActual('react-native');
+  ReactNative.NativeModules.LinkzlyReactNative = {
+    addListener: jest.fn(),
+    removeListeners: jest.fn(),
+    resolveLink: jest.fn(),
+  };
+  return ReactNative;
+});
+
+const resolveLink: jest.Mock = NativeModules.LinkzlyReactNative.resolveLink;
+
+afterEach(() => {
+  resolveLink.mockReset();
+  jest.useRealTimers();
+});
+
+describe('resolveLink', () => {
+  it('parses the destination URL returned by the native module', async () => {
+    resolveLink.mockResolvedValue({
+      url: 'myapp://products/42?color=red&slid=sl_1',
+    });
+
+    await expect(
+      LinkzlySDK.resolveLink('https://lnk.example/a')
+    ).resolves.toMatchObject({
+      url: 'myapp://products/42?color=red&slid=sl_1',
+      path: '/products/42',
+      parameters: { color: 'red' },
+      smartLinkId: 'sl_1',
+      attributionStatus: 'resolved',
+    });
+    expect(resolveLink).toHaveBeenCalledWith('https://lnk.example/a');
+  });
+
+  it('caches results and shares concurrent requests', async () => {
+    resolveLink.mockResolvedValue({ url: 'https://shop.example.com/p/1' });
+
+    await Promise.all([
+      LinkzlySDK.resolveLink('https://lnk.example/b'),
+      LinkzlySDK.resolveLink('https://lnk.example/b'),
+    ]);
+    await LinkzlySDK.resolveLink('https://lnk.example/b');
+    expect(resolveLink).toHaveBeenCalledTimes(1);
+
+    await LinkzlySDK.resolveLink('https://lnk.example/b', { skipCache: true });
+    expect(resolveLink).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects when the native module returns nothing', async () => {
+    resolveLink.mockResolvedValue(null);
+
+    await expect(
+      LinkzlySDK.resolveLink('https://lnk.example/c')
+    ).rejects.toThrow('Link could not be resolved: https://lnk.example/c');
+  });
+
+  it('rejects after the timeout', async () => {
+    jest.useFakeTimers();
+    resolveLink.mockReturnValue(new Promise(() => {}));
+
+    const result = LinkzlySDK.resolveLink('https://lnk.example/d', {
+      timeoutMs: 1000,
+    });
+    jest.advanceTimersByTime(1000);
+    await expect(result).rejects.toThrow('resolveLink timed out after 1000ms');
+  });
+});
@@ -0,0 +1,150 @@
+import type { DeepLinkData } from '../sdk';
+import { DeepLinkRouter } from '../router';
+
+const noop = () => {};
+
+function link(path: string): DeepLinkData {
+  return { url: `myapp:/${path}`, path, parameters: {} };
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(noop);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('DeepLinkRouter.match', () => {
+  it('captures and decodes path params', () => {
+    const router = new DeepLinkRouter().route(
+      '/products/:id/reviews/:reviewId',
+      noop
+    );
+    expect(router.match('/products/a%20b/reviews/7/')).toEqual({
+      pattern: '/products/:id/reviews/:reviewId',
+      params: { id: 'a b', reviewId: '7' },
+      wildcard: undefined,
+    });
+    expect(router.match('/products/1')).toBeNull();
+  });
+
+  it('prefers more literal segments, then routes without a wildcard', () => {
+    const router = new DeepLinkRouter()
+      .route('/products/*', noop)
+      .route('/products/:id', noop)
+      .route('/products/sale', noop);
+
+    expect(router.match('/products/sale')?.pattern).toBe('/products/sale');
+    expect(router.match('/products/42')?.pattern).toBe('/products/:id');
+    expect(router.match('/products/42/specs')?.pattern).toBe('/products/*');
+  });
+
+  it('tries higher priority routes first', () => {
+    const router = new DeepLinkRouter()
+      .route('/products/sale', noop)
+      .route('/:section/:id', noop, { priority: 1 });
+    expect(router.match('/products/sale')?.pattern).toBe('/:section/:id');
+  });
+
+  it('keeps registration order between equally specific routes', () => {
+    const router = new DeepLinkRouter()
+      .route('/:a/x', noop)
+      .route('/x/:b', noop);
+    expect(router.match('/x/x')?.pattern).toBe('/:a/x');
+  });
+
+  it('captures the remainder of the path after a wildcard', () => {
+    const router = new DeepLinkRouter().route('/promo/*', noop);
+    expect(router.match('/promo/spring/2026')?.wildcard).toBe('spring/2026');
+    expect(router.match('/promo')?.wildcard).toBe('');
+  });
+
+  it('matches literal segments case-insensitively by default', () => {
+    const pattern = '/Products/:id';
+    expect(
+      new DeepLinkRouter().route(pattern, noop).match('/PRODUCTS/Ab')
+    ).toMatchObject({
+      params: { id: 'Ab' },
+    });
+    expect(
+      new DeepLinkRouter({ caseSensitive: true })
+        .route(pattern, noop)
+        .match('/products/1')
+    ).toBeNull();
+  });
+
+  it('rejects a wildcard before the last segment', () => {
+    expect(() => new DeepLinkRouter().route('/promo/*/x', noop)).toThrow(
+      'Invalid route pattern "/promo/*/x"'
+    );
+  });
+
+  it('stops matching removed routes', () => {
+    const router = new DeepLinkRouter();
+    const remove = router.addRoute({ pattern: '/home', handler: noop });
+    remove();
+    expect(router.match('/home')).toBeNull();
+  });
+});
+
+describe('DeepLinkRouter.dispatch', () => {
+  it('calls the matching handler with the match and the link', () => {
+    const handler = jest.fn();
+    const data = link('/products/42');
+    const router = new DeepLinkRouter({
+      routes: [{ pattern: '/products/:id', handler }],
+    });
+
+    expect(router.dispatch(data)).toBe(true);
+    expect(handler).toHaveBeenCalledWith(
+      { pattern: '/products/:id', params: { id: '42' }, wildcard: undefined },
+      data
+    );
+  });
+
+  it('calls onNotFound when no route matches', () => {
+    const onNotFound = jest.fn();
+    const data = link('/missing');
+    const router = new DeepLinkRouter({ onNotFound }).route('/home', noop);
+
+    expect(router.dispatch(data)).toBe(false);
+    expect(onNotFound).toHaveBeenCalledWith(data);
+  });
+
+  it('treats a throwing handler as handled', () => {
+    jest.spyOn(console, 'error').mockImplementation(noop);
+    const router = new DeepLinkRouter().route('/home', () => {
+      throw new Error('boom');
+    });
+    expect(router.dispatch(link('/home'))).toBe(true);
+  });
+});
+
+describe('DeepLinkRouter.start', () => {
+  it('acks links a route handled', () => {
+    let listener: (data: DeepLinkData, ack: () => void) => void = noop;
+    const unsubscribe = jest.fn();
+    const router = new DeepLinkRouter({}, (l) => {
+      listener = l;
+      return unsubscribe;
+    }).route('/home', noop);
+    const stop = router.start();
+
+    const handledAck = jest.fn();
+    const unhandledAck = jest.fn();
+    listener(link('/home'), handledAck);
+    listener(link('/missing'), unhandledAck);
+    expect(handledAck).toHaveBeenCalledTimes(1);
+    expect(unhandledAck).not.toHaveBeenCalled();
+
+    stop();
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+  });
+
+  it('requires a subscription', () => {
+    expect(() => new DeepLinkRouter().start()).toThrow(
+      'This router is not connected to the SDK.'
+    );
+  });
+});
@@ -0,0 +1,151 @@
+import {
+  DeepLinkParam,
+  DeepLinkSchema,
+  DeepLinkValidationError,
+  validateDeepLinkParameters,
+} from '../schema';
+
+function issuesOf(schema: DeepLinkSchema, parameters: Record<string, any>) {
+  const result = validateDeepLinkParameters(schema, { parameters });
+  if (result.success) {
+    throw new Error('Expected the parameters to be invalid');
+  }
+  return result.error.issues;
+}
+
+describe('validateDeepLinkParameters', () => {
+  it('coerces numbers', () => {
+    const schema = { n: DeepLinkParam.number() };
+    expect(
+      validateDeepLinkParameters(schema, { parameters: { n: ' 4.5 ' } })
+    ).toEqual({
+      success: true,
+      value: { n: 4.5 },
+    });
+    expect(issuesOf(schema, { n: '12abc' })).toEqual([
+      {
+        key: 'n',
+        code: 'invalid_type',
+        message: '"n" must be a number',
+        received: '12abc',
+      },
+    ]);
+    expect(issuesOf(schema, { n: 'Infinity' })).toMatchObject([
+      { code: 'invalid_type' },
+    ]);
+  });
+
+  it.each([
+    ['true', true],
+    ['1', true],
+    ['YES', true],
+    ['false', false],
+    ['0', false],
+    ['no', false],
+  ])('coerces the boolean %j', (raw, expected) => {
+    expect(
+      validateDeepLinkParameters(
+        { b: DeepLinkParam.boolean() },
+        { parameters: { b: raw } }
+      )
+    ).toEqual({ success: true, value: { b: expected } });
+  });
+
+  it('rejects other boolean values', () => {
+    expect(
+      issuesOf({ b: DeepLinkParam.boolean() }, { b: 'maybe' })
+    ).toMatchObject([{ key: 'b', code: 'invalid_type' }]);
+  });
+
+  it('coerces ISO 8601 dates and epoch milliseconds', () => {
+    const schema = { at: DeepLinkParam.date() };
+    const iso = validateDeepLinkParameters(schema, {
+      parameters: { at: '2026-01-01T00:00:00Z' },
+    });
+    const epoch = validateDeepLinkParameters(schema, {
+      parameters: { at: '0' },
+    });
+
+    expect(iso.success && iso.value.at?.getTime()).toBe(Date.UTC(2026, 0, 1));
+    expect(epoch.success && epoch.value.at?.getTime()).toBe(0);
+    expect(issuesOf(schema, { at: 'yesterday' })).toMatchObject([
+      { code: 'invalid_type' },
+    ]);
+  });
+
+  it('accepts only the listed enum values', () => {
+    const schema = { color: DeepLinkParam.enum(['red', 'blue'] as const) };
+    expect(
+      validateDeepLinkParameters(schema, { parameters: { color: 'red' } })
+    ).toEqual({
+      success: true,
+      value: { color: 'red' },
+    });
+    expect(issuesOf(schema, { color: 'Red' })).toEqual([
+      {
+        key: 'color',
+        code: 'invalid_enum',
+        message: '"color" must be one of red, blue',
+        received: 'Red',
+      },
+    ]);
+  });
+
+  it('applies defaults to missing and blank parameters', () => {
+    const schema = {
+      gift: DeepLinkParam.boolean({ default: false }),
+      page: DeepLinkParam.number({ default: 1 }),
+      ref: DeepLinkParam.string({ default: 'none' }),
+    };
+    expect(
+      validateDeepLinkParameters(schema, { parameters: { page: ' ', ref: '' } })
+    ).toEqual({ success: true, value: { gift: false, page: 1, ref: '' } });
+  });
+
+  it('reports missing required parameters and leaves optional ones out', () => {
+    const schema = {
+      id: DeepLinkParam.number({ required: true }),
+      name: DeepLinkParam.string({ required: true }),
+      note: DeepLinkParam.string(),
+    };
+    expect(issuesOf(schema, { id: '' })).toEqual([
+      { key: 'id', code: 'missing', message: '"id" is required' },
+      { key: 'name', code: 'missing', message: '"name" is required' },
+    ]);
+    expect(
+      validateDeepLinkParameters(schema, {
+        parameters: { id: '1', name: '', extra: 'x' },
+      })
+    ).toEqual({ success: true, value: { id: 1, name: '' } });
+  });
+
+  it('validates the last value of repeated parameters', () => {
+    const schema = { page: DeepLinkParam.number() };
+    expect(
+      validateDeepLinkParameters(schema, { parameters: { page: ['x', '3'] } })
+    ).toEqual({ success: true, value: { page: 3 } });
+    expect(issuesOf(schema, { page: ['3', 'x'] })).toMatchObject([
+      { key: 'page', received: 'x' },
+    ]);
+  });
+
+  it('describes the link in the error', () => {
+    const result = validateDeepLinkParameters(
+      { id: DeepLinkParam.number({ required: true }) },
+      {
+        parameters: { id: 'x' },
+        path: '/products',
+        url: 'myapp://products?id=x',
+      }
+    );
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBeInstanceOf(DeepLinkValidationError);
+      expect(result.error.message).toBe(
+        'Invalid deep link parameters for /products: "id" must be a number'
+      );
+      expect(result.error.url).toBe('myapp://products?id=x');
+    }
+  });
+});
@@ -0,0 +1,130 @@
+import { hmacSha256Hex } from '../crypto';
+import { getSignedLinkPayload, LinkVerifier } from '../verification';
+
+const KEY = 'test-signing-key';
+const NOW = Date.UTC(2026, 0, 1);
+
+function sign(url: string, key = KEY): string {
+  return `${url}&sig=${hmacSha256Hex(key, getSignedLinkPayload(url))}`;
+}
+
+beforeEach(() => {
+  jest.spyOn(Date, 'now').mockReturnValue(NOW);
+  // Storage warns that it falls back to memory without the native module
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('getSignedLinkPayload', () => {
+  it('sorts parameters, keeps repeated values in order and drops sig', () => {
+    expect(
+      getSignedLinkPayload(
+        'https://link.example.com/promo?z=1&tag=b&sig=abc&a=x%20y&tag=a#top'
+      )
+    ).toBe('/promo?a=x%20y&tag=b&tag=a&z=1');
+  });
+
+  it('treats the host of custom scheme URLs as part of the path', () => {
+    expect(getSignedLinkPayload('myapp://promo/42?exp=1')).toBe(
+      '/promo/42?exp=1'
+    );
+  });
+});
+
+describe('LinkVerifier', () => {
+  const exp = NOW / 1000 + 3600;
+
+  it('accepts a correctly signed link', async () => {
+    const verifier = new LinkVerifier({ key: KEY });
+    await expect(
+      verifier.verify(sign(`https://link.example.com/promo?code=A&exp=${exp}`))
+    ).resolves.toEqual({
+      status: 'valid',
+      expiresAt: exp * 1000,
+      singleUse: false,
+    });
+  });
+
+  it('reports links without a signature as unsigned', async () => {
+    const verifier = new LinkVerifier({ key: KEY });
+    await expect(
+      verifier.verify('https://link.example.com/promo?code=A')
+    ).resolves.toEqual({ status: 'unsigned', singleUse: false });
+  });
+
+  it('rejects modified links and links signed with another key', async () => {
+    const verifier = new LinkVerifier({ key: KEY });
+    const signed = sign(`https://link.example.com/promo?code=A&exp=${exp}`);
+    await expect(
+      verifier.verify(signed.replace('code=A', 'code=B'))
+    ).resolves.toMatchObject({ status: 'invalidSignature' });
+    await expect(
+      verifier.verify(
+        sign(`https://link.example.com/promo?code=A&exp=${exp}`, 'other-key')
+      )
+    ).resolves.toMatchObject({ status: 'invalidSignature' });
+  });
+
+  it('accepts signatures in upper case', async () => {
+    const verifier = new LinkVerifier({ key: KEY });
+    const url = 'https://link.example.com/promo?code=C';
+    const sig = hmacSha256Hex(KEY, getSignedLinkPayload(url)).toUpperCase();
+    await expect(verifier.verify(`${url}&sig=${sig}`)).resolves.toMatchObject({
+      status: 'valid',
+    });
+  });
+
+  it('rejects expired links, allowing for clock skew', async () => {
+    const url = sign(`https://link.example.com/promo?code=D&exp=${NOW / 1000}`);
+    jest.spyOn(Date, 'now').mockReturnValue(NOW + 1000);
+
+    await expect(
+      new LinkVerifier({ key: KEY }).verify(url)
+    ).resolves.toMatchObject({ status: 'expired', expiresAt: NOW });
+    await expect(
+      new LinkVerifier({ key: KEY, clockSkewMs: 5000 }).verify(url)
+    ).resolves.toMatchObject({ status: 'valid' });
+  });
+
+  it('accepts a single-use link once', async () => {
+    const url = sign(
+      `https://link.example.com/promo?code=E&exp=${exp}&single_use=1`
+    );
+    const verifier = new LinkVerifier({ key: KEY });
+
+    await expect(verifier.verify(url)).resolves.toMatchObject({
+      status: 'valid',
+      singleUse: true,
+    });
+    await expect(verifier.verify(url)).resolves.toMatchObject({
+      status: 'alreadyUsed',
+      singleUse: true,
+    });
+  });
+
+  it('rejects concurrent deliveries of a single-use link after the first', async () => {
+    const url = sign('https://link.example.com/promo?code=F&single_use=true');
+    const verifier = new LinkVerifier({ key: KEY });
+
+    const results = await Promise.all([
+      verifier.verify(url),
+      verifier.verify(url),
+    ]);
+    expect(results.map((result) => result.status)).toEqual([
+      'valid',
+      'alreadyUsed',
+    ]);
+  });
+
+  it('remembers used single-use links across verifier instances', async () => {
+    const url = sign('https://link.example.com/promo?code=G&single_use=1');
+
+    await new LinkVerifier({ key: KEY }).verify(url);
+    await expect(
+      new LinkVerifier({ key: KEY }).verify(url)
+    ).resolves.toMatchObject({ status: 'alreadyUsed' });
+  });
+});
@@ -0,0 +1,176 @@
+import type { DeepLinkData, DeepLinkSource, EventParameters } from './sdk';
+import { StoredValue } from './storage';
+
+/**
+ * Last-touch attribution context
+ *
+ * The most recent deep link carrying a smart link ID, click ID or UTM
+ * parameters becomes the attribution context, and its values are added to
+ * events tracked within the lookback window. Links without attribution (plain
+ * app URLs) don't replace it, and neither do signed links that failed
+ * verification.
+ */
+
+export interface AttributionContext {
+  smartLinkId?: string;
+  clickId?: string;
+  utmSource?: string;
+  utmMedium?: string;
+  utmCampaign?: string;
+  utmTerm?: string;
+  utmContent?: string;
+  /** URL of the deep link the context came from */
+  url?: string;
+  source?: DeepLinkSource;
+  /** When the deep link was received (ms since epoch) */
+  touchedAt: number;
+  /** When the context stops being added to events (ms since epoch) */
+  expiresAt: number;
+}
+
+export interface AttributionContextOptions {
+  /** How long after a deep link events are attributed to it in ms (default: 24 hours) */
+  lookbackWindowMs?: number;
+  /** Whether to add the context to tracked events (default: true) */
+  addToEvents?: boolean;
+}
+
+export const DEFAULT_ATTRIBUTION_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+// Context field -> event parameter and deep link query parameter
+const UTM_FIELDS: [
+  'utmSource' | 'utmMedium' | 'utmCampaign' | 'utmTerm' | 'utmContent',
+  string,
+][] = [
+  ['utmSource', 'utm_source'],
+  ['utmMedium', 'utm_medium'],
+  ['utmCampaign', 'utm_campaign'],
+  ['utmTerm', 'utm_term'],
+  ['utmContent', 'utm_content'],
+];
+
+type StoredAttributionContext = Omit<AttributionContext, 'expiresAt'>;
+
+/**
+ * Build the attribution context for a deep link (without its expiry)
+ * @returns null if the link carries no attribution or failed verification
+ */
+export function getAttributionContextFromDeepLink(
+  data: DeepLinkData
+): StoredAttributionContext | null {
+  if (
+    data.validity &&
+    data.validity.status !== 'valid' &&
+    data.validity.status !== 'unsigned'
+  ) {
+    return null;
+  }
+
+  const context: StoredAttributionContext = {
+    touchedAt: data.receivedAt ?? Date.now(),
+  };
+  if (data.smartLinkId) {
+    context.smartLinkId = data.smartLinkId;
+  }
+  if (data.clickId) {
+    context.clickId = data.clickId;
+  }
+  UTM_FIELDS.forEach(([field, parameter]) => {
+    const value = data.parameters?.[parameter];
+    if (typeof value === 'string' && value) {
+      context[field] = value;
+    }
+  });
+  if (Object.keys(context).length === 1) {
+    return null;
+  }
+
+  if (data.url) {
+    context.url = data.url;
+  }
+  if (data.source) {
+    context.source = data.source;
+  }
+  return context;
+}
+
+/**
+ * Event parameters for an attribution context
+ */
+export function getAttributionEventParameters(
+  context: StoredAttributionContext
+): EventParameters {
+  const parameters: EventParameters = {};
+  if (context.smartLinkId) {
+    parameters.smart_link_id = context.smartLinkId;
+  }
+  if (context.clickId) {
+    parameters.click_id = context.clickId;
+  }
+  UTM_FIELDS.forEach(([field, parameter]) => {
+    if (context[field] !== undefined) {
+      parameters[parameter] = context[field];
+    }
+  });
+  return parameters;
+}
+
+/**
+ * Holds the current attribution context, persisted so the lookback window
+ * spans app launches
+ */
+export class AttributionTracker {
+  private context = new StoredValue<StoredAttributionContext | null>(
+    'attribution_context',
+    () => null,
+    'attribution context'
+  );
+
+  constructor(private lookbackWindowMs: number) {}
+
+  /**
+   * Change the lookback window, including for the current context
+   */
+  setLookbackWindow(lookbackWindowMs: number): void {
+    this.lookbackWindowMs = Math.max(0, lookbackWindowMs);
+  }
+
+  /**
+   * Make a deep link the attribution context, unless it carries no
+   * attribution or a newer link already is
+   */
+  record(data: DeepLinkData): Promise<void> {
+    const next = getAttributionContextFromDeepLink(data);
+    if (!next) {
+      return Promise.resolve();
+    }
+    return this.context.serialize(async () => {
+      const current = await this.context.load();
+      if (current && current.touchedAt > next.touchedAt) {
+        return;
+      }
+      await this.context.save(next);
+    });
+  }
+
+  /**
+   * The current context, or null if there is none or it has expired
+   */
+  get(): Promise<AttributionContext | null> {
+    return this.context.serialize(async () => {
+      const context = await this.context.load();
+      if (!context) {
+        return null;
+      }
+      const expiresAt = context.touchedAt + this.lookbackWindowMs;
+      return expiresAt > Date.now() ? { ...context, expiresAt } : null;
+    });
+  }
+
+  /**
+   * Forget the current context
+   */
+  clear(): Promise<void> {
+    return this.context.serialize(() => this.context.clear());
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * SHA-256 and HMAC-SHA256 in plain JavaScript
+ *
+ * Used to verify signed deep links. Implemented here so it runs in Hermes and
+ * JSC without `crypto.subtle` or a native crypto module.
+ */
+
+// prettier-ignore
+const K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+const BLOCK_SIZE = 64;
+
+/**
+ * Encode a string as UTF-8 bytes
+ */
+export function utf8Encode(value: string): number[] {
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    let code = value.charCodeAt(i);
+    // Combine surrogate pairs into one code point
+    if (code >= 0xd800 && code < 0xdc00 && i + 1 < value.length) {
+      const next = value.charCodeAt(i + 1);
+      if (next >= 0xdc00 && next < 0xe000) {
+        code = 0x10000 + ((code - 0xd800) << 10) + (next - 0xdc00);
+        i++;
+      }
+    }
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(
+        0xe0 | (code >> 12),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+  return bytes;
+}
+
+function rotateRight(value: number, bits: number): number {
+  return (value >>> bits) | (value << (32 - bits));
+}
+
+/**
+ * SHA-256 digest of a byte array
+ */
+export function sha256(message: number[]): number[] {
+  const hash = [
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+    0x1f83d9ab, 0x5be0cd19,
+  ];
+
+  // Padding: 0x80, zeros, then the message length in bits (big-endian)
+  const bitLength = message.length * 8;
+  const padded = [...message, 0x80];
+  while (padded.length % BLOCK_SIZE !== BLOCK_SIZE - 8) {
+    padded.push(0);
+  }
+  const high = Math.floor(bitLength / 0x100000000);
+  for (let shift = 24; shift >= 0; shift -= 8) {
+    padded.push((high >>> shift) & 0xff);
+  }
+  for (let shift = 24; shift >= 0; shift -= 8) {
+    padded.push((bitLength >>> shift) & 0xff);
+  }
+
+  const w = new Array<number>(64);
+  for (let offset = 0; offset < padded.length; offset += BLOCK_SIZE) {
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      w[i] =
+        (padded[j] << 24) |
+        (padded[j + 1] << 16) |
+        (padded[j + 2] << 8) |
+        padded[j + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 =
+        rotateRight(w[i - 15], 7) ^
+        rotateRight(w[i - 15], 18) ^
+        (w[i - 15] >>> 3);
+      const s1 =
+        rotateRight(w[i - 2], 17) ^
+        rotateRight(w[i - 2], 19) ^
+        (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const S1 = rotateRight(e, 6) ^ rotateRight(e, 11) ^ rotateRight(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const temp1 = (h + S1 + ch + K[i] + w[i]) | 0;
+      const S0 = rotateRight(a, 2) ^ rotateRight(a, 13) ^ rotateRight(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (S0 + maj) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) | 0;
+    }
+
+    hash[0] = (hash[0] + a) | 0;
+    hash[1] = (hash[1] + b) | 0;
+    hash[2] = (hash[2] + c) | 0;
+    hash[3] = (hash[3] + d) | 0;
+    hash[4] = (hash[4] + e) | 0;
+    hash[5] = (hash[5] + f) | 0;
+    hash[6] = (hash[6] + g) | 0;
+    hash[7] = (hash[7] + h) | 0;
+  }
+
+  const digest: number[] = [];
+  hash.forEach((word) => {
+    digest.push(
+      (word >>> 24) & 0xff,
+      (word >>> 16) & 0xff,
+      (word >>> 8) & 0xff,
+      word & 0xff
+    );
+  });
+  return digest;
+}
+
+/**
+ * HMAC-SHA256 (RFC 2104) of a byte array
+ */
+export function hmacSha256(key: number[], message: number[]): number[] {
+  const keyBytes = key.length > BLOCK_SIZE ? sha256(key) : [...key];
+  while (keyBytes.length < BLOCK_SIZE) {
+    keyBytes.push(0);
+  }
+
+  const inner = sha256([...keyBytes.map((byte) => byte ^ 0x36), ...message]);
+  return sha256([...keyBytes.map((byte) => byte ^ 0x5c), ...inner]);
+}
+
+/**
+ * HMAC-SHA256 of a UTF-8 message with a UTF-8 key
+ * @returns Lower-case hex digest
+ */
+export function hmacSha256Hex(key: string, message: string): string {
+  return hmacSha256(utf8Encode(key), utf8Encode(message))
+    .map((byte) => (byte < 16 ? '0' : '') + byte.toString(16))
+    .join('');
+}
+
+/**
+ * Compare two strings in time independent of where they differ
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
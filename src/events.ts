@@ -0,0 +1,124 @@
+import type { BatchEvent, EventParameters } from './sdk';
+
+/**
+ * Standard event catalog
+ *
+ * Typed parameters for common commerce and lifecycle events, mapped to the
+ * canonical event names and snake_case parameter keys the backend
+ * understands (e.g. `AddToCart` with `contentId` becomes `add_to_cart` with
+ * `content_id`).
+ */
+
+export interface StandardEvents {
+  ViewContent: {
+    contentId: string;
+    contentType?: string;
+    contentName?: string;
+    value?: number;
+    currency?: string;
+  };
+  AddToCart: {
+    contentId: string;
+    quantity: number;
+    price: number;
+    currency: string;
+    contentName?: string;
+  };
+  InitiateCheckout: {
+    value: number;
+    currency: string;
+    numItems: number;
+    contentIds?: string[];
+  };
+  Purchase: {
+    transactionId: string;
+    value: number;
+    currency: string;
+    contentIds?: string[];
+    numItems?: number;
+  };
+  CompleteRegistration: {
+    method: string;
+  };
+  Login: {
+    method: string;
+  };
+  Search: {
+    query: string;
+    resultCount?: number;
+  };
+  Subscribe: {
+    planId: string;
+    value: number;
+    currency: string;
+    period?: string;
+  };
+}
+
+export type StandardEventName = keyof StandardEvents;
+
+/** Canonical backend event name for each standard event */
+export const STANDARD_EVENT_NAMES: Record<StandardEventName, string> = {
+  ViewContent: 'view_content',
+  AddToCart: 'add_to_cart',
+  InitiateCheckout: 'initiate_checkout',
+  Purchase: 'purchase',
+  CompleteRegistration: 'complete_registration',
+  Login: 'login',
+  Search: 'search',
+  Subscribe: 'subscribe',
+};
+
+// Checked at runtime too, for callers without type checking
+const REQUIRED_FIELDS: {
+  [E in StandardEventName]: (keyof StandardEvents[E])[];
+} = {
+  ViewContent: ['contentId'],
+  AddToCart: ['contentId', 'quantity', 'price', 'currency'],
+  InitiateCheckout: ['value', 'currency', 'numItems'],
+  Purchase: ['transactionId', 'value', 'currency'],
+  CompleteRegistration: ['method'],
+  Login: ['method'],
+  Search: ['query'],
+  Subscribe: ['planId', 'value', 'currency'],
+};
+
+function toSnakeCase(key: string): string {
+  return key.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`);
+}
+
+/**
+ * Build the canonical event for a standard event
+ * @param name Standard event name
+ * @param parameters Typed event fields
+ * @param extra Additional custom parameters; standard fields win on conflict
+ * @throws Error if a required field is missing
+ */
+export function buildStandardEvent<E extends StandardEventName>(
+  name: E,
+  parameters: StandardEvents[E],
+  extra?: EventParameters
+): BatchEvent {
+  const eventName = STANDARD_EVENT_NAMES[name];
+  if (!eventName) {
+    throw new Error(`Unknown standard event: "${String(name)}"`);
+  }
+
+  const fields = (parameters || {}) as Record<string, unknown>;
+  const missing = (REQUIRED_FIELDS[name] as string[]).filter(
+    (field) => fields[field] === undefined || fields[field] === null
+  );
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing required field${missing.length > 1 ? 's' : ''} for ${name}: ${missing.join(', ')}`
+    );
+  }
+
+  const canonical: EventParameters = { ...extra };
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value !== undefined) {
+      canonical[toSnakeCase(key)] = value;
+    }
+  });
+  return { eventName, parameters: canonical };
+}
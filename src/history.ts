@@ -0,0 +1,107 @@
+import { StoredValue } from './storage';
+import type { DeepLinkSource } from './sdk';
+
+/**
+ * A deep link recorded in the on-device history
+ */
+export interface DeepLinkHistoryEntry {
+  url?: string;
+  path?: string;
+  source: DeepLinkSource;
+  /** When the link was delivered to listeners (ms since epoch) */
+  receivedAt: number;
+  smartLinkId?: string;
+  clickId?: string;
+}
+
+export interface DeepLinkHistoryQuery {
+  /** Only entries received at or after this time */
+  since?: Date | number;
+  /** Maximum number of entries to return (newest first) */
+  limit?: number;
+}
+
+/**
+ * Bounded, persisted history of received deep links (oldest entries are
+ * dropped first). Writes are serialized so concurrent records can't overwrite
+ * each other.
+ */
+export class DeepLinkHistory {
+  private entries = new StoredValue<DeepLinkHistoryEntry[]>(
+    'deep_link_history',
+    () => [],
+    'deep link history'
+  );
+
+  constructor(private maxEntries: number) {}
+
+  /**
+   * Change the maximum number of entries; 0 disables recording
+   */
+  setMaxEntries(maxEntries: number): void {
+    this.maxEntries = Math.max(0, Math.floor(maxEntries));
+  }
+
+  /**
+   * Append an entry
+   */
+  record(entry: DeepLinkHistoryEntry): Promise<void> {
+    if (this.maxEntries === 0) {
+      return Promise.resolve();
+    }
+    return this.mutate((entries) => [...entries, entry]);
+  }
+
+  /**
+   * Update the most recent entry for a URL (e.g. with late attribution IDs)
+   */
+  updateLatest(
+    url: string,
+    patch: Partial<Pick<DeepLinkHistoryEntry, 'smartLinkId' | 'clickId'>>
+  ): Promise<void> {
+    return this.mutate((entries) => {
+      for (let i = entries.length - 1; i >= 0; i--) {
+        if (entries[i].url === url) {
+          const updated = [...entries];
+          updated[i] = { ...entries[i], ...patch };
+          return updated;
+        }
+      }
+      return entries;
+    });
+  }
+
+  /**
+   * Query entries, newest first
+   */
+  async query(
+    query: DeepLinkHistoryQuery = {}
+  ): Promise<DeepLinkHistoryEntry[]> {
+    const entries = await this.entries.serialize(() => this.entries.load());
+    const since =
+      query.since instanceof Date ? query.since.getTime() : query.since;
+
+    const result = entries
+      .filter((entry) => since === undefined || entry.receivedAt >= since)
+      .reverse();
+    return query.limit !== undefined ? result.slice(0, query.limit) : result;
+  }
+
+  /**
+   * Remove all entries
+   */
+  clear(): Promise<void> {
+    return this.entries.serialize(() => this.entries.clear());
+  }
+
+  private mutate(
+    update: (entries: DeepLinkHistoryEntry[]) => DeepLinkHistoryEntry[]
+  ): Promise<void> {
+    return this.entries.serialize(async () => {
+      const entries = update(await this.entries.load());
+      await this.entries.save(
+        this.maxEntries > 0 ? entries.slice(-this.maxEntries) : entries
+      );
+    });
+  }
+}
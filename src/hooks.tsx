@@ -0,0 +1,256 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from 'react';
+import { Platform } from 'react-native';
+import LinkzlySDK from './sdk';
+import type {
+  ConfigureOptions,
+  DeepLinkData,
+  DeepLinkReplay,
+  Environment,
+  StateChange,
+} from './sdk';
+
+/**
+ * React bindings for the SDK
+ *
+ * Hooks subscribe to the `LinkzlySDK` singleton, re-render when the relevant
+ * state changes and remove their listeners on unmount.
+ */
+
+export interface LinkzlyStatus {
+  /** Whether configure() has completed */
+  isConfigured: boolean;
+  /** Error thrown by configure(), if any */
+  error: Error | null;
+}
+
+const LinkzlyContext = createContext<LinkzlyStatus | null>(null);
+
+export interface LinkzlyProviderProps {
+  sdkKey: string;
+  environment?: Environment;
+  options?: ConfigureOptions;
+  children?: React.ReactNode;
+}
+
+const CONFIGURED_CHANGES: StateChange[] = ['configured'];
+const VISITOR_ID_CHANGES: StateChange[] = ['visitorId'];
+const CONSENT_CHANGES: StateChange[] = [
+  'trackingEnabled',
+  'advertisingTrackingEnabled',
+  'attStatus',
+];
+
+/**
+ * Subscribe to SDK state changes for the lifetime of a component
+ * @param changes Stable list of changes to react to
+ */
+function useStateChange(changes: StateChange[], onChange: () => void): void {
+  useEffect(() => {
+    return LinkzlySDK.addStateChangeListener((change) => {
+      if (changes.includes(change)) {
+        onChange();
+      }
+    });
+  }, [changes, onChange]);
+}
+
+/**
+ * Configures the SDK once on mount and provides its status to the hooks
+ * @example
+ * ```tsx
+ * <LinkzlyProvider sdkKey="YOUR_SDK_KEY" environment={Environment.PRODUCTION}>
+ *   <App />
+ * </LinkzlyProvider>
+ * ```
+ */
+export function LinkzlyProvider({
+  sdkKey,
+  environment,
+  options,
+  children,
+}: LinkzlyProviderProps) {
+  const [status, setStatus] = useState<LinkzlyStatus>({
+    isConfigured: LinkzlySDK.isSDKConfigured(),
+    error: null,
+  });
+
+  // Configure once per SDK key; option changes after mount are ignored.
+  // A remount while configure() is in flight (e.g. under StrictMode) waits
+  // for the same call.
+  const configuration = useRef({ environment, options });
+  configuration.current = { environment, options };
+
+  useEffect(() => {
+    if (LinkzlySDK.isSDKConfigured()) {
+      return;
+    }
+    let mounted = true;
+
+    LinkzlySDK.configure(
+      sdkKey,
+      configuration.current.environment,
+      configuration.current.options
+    )
+      .then(() => {
+        if (mounted) {
+          setStatus({ isConfigured: true, error: null });
+        }
+      })
+      .catch((error: Error) => {
+        console.error('[LinkzlySDK] Error configuring SDK:', error);
+        if (mounted) {
+          setStatus({ isConfigured: false, error });
+        }
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, [sdkKey]);
+
+  return (
+    <LinkzlyContext.Provider value={status}>{children}</LinkzlyContext.Provider>
+  );
+}
+
+/**
+ * Get the SDK configuration status
+ * Works without a LinkzlyProvider when configure() is called directly
+ */
+export function useLinkzlyStatus(): LinkzlyStatus {
+  const context = useContext(LinkzlyContext);
+  const [isConfigured, setIsConfigured] = useState(
+    LinkzlySDK.isSDKConfigured()
+  );
+
+  const refresh = useCallback(() => {
+    setIsConfigured(LinkzlySDK.isSDKConfigured());
+  }, []);
+  useStateChange(CONFIGURED_CHANGES, refresh);
+
+  return {
+    isConfigured: (context?.isConfigured ?? false) || isConfigured,
+    error: context?.error ?? null,
+  };
+}
+
+/**
+ * Get the most recent deep link, updated whenever a new one arrives
+ * @param replay Which link delivered before mounting to start with (default: "unconsumed")
+ * @returns Latest deep link data or null
+ */
+export function useDeepLink(
+  replay: DeepLinkReplay = 'unconsumed'
+): DeepLinkData | null {
+  const [deepLink, setDeepLink] = useState<DeepLinkData | null>(null);
+
+  useEffect(() => {
+    return LinkzlySDK.addDeepLinkListener((data) => setDeepLink(data), {
+      replay,
+    });
+  }, [replay]);
+
+  return deepLink;
+}
+
+/**
+ * Get the visitor ID, refreshed after resetVisitorID()
+ */
+export function useVisitorId(): {
+  visitorId: string | null;
+  resetVisitorId: () => Promise<void>;
+} {
+  const { isConfigured } = useLinkzlyStatus();
+  const [visitorId, setVisitorId] = useState<string | null>(null);
+
+  const refresh = useCallback(() => {
+    LinkzlySDK.getVisitorID()
+      .then(setVisitorId)
+      .catch((error) => {
+        console.error('[LinkzlySDK] Error getting visitor ID:', error);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (isConfigured) {
+      refresh();
+    }
+  }, [isConfigured, refresh]);
+  useStateChange(VISITOR_ID_CHANGES, refresh);
+
+  const resetVisitorId = useCallback(() => LinkzlySDK.resetVisitorID(), []);
+
+  return { visitorId, resetVisitorId };
+}
+
+export interface TrackingConsent {
+  /** Whether analytics tracking is enabled (null while loading) */
+  trackingEnabled: boolean | null;
+  /** Whether IDFA/GAID collection is enabled (null while loading) */
+  advertisingTrackingEnabled: boolean | null;
+  /** ATT status on iOS 14.5+, null elsewhere */
+  attStatus: string | null;
+  setTrackingEnabled: (enabled: boolean) => Promise<void>;
+  setAdvertisingTrackingEnabled: (enabled: boolean) => Promise<void>;
+  requestTrackingPermission: () => Promise<string>;
+}
+
+/**
+ * Get and update tracking consent, refreshed whenever it changes
+ */
+export function useTrackingConsent(): TrackingConsent {
+  const { isConfigured } = useLinkzlyStatus();
+  const [trackingEnabled, setTrackingEnabledState] = useState<boolean | null>(
+    null
+  );
+  const [advertisingTrackingEnabled, setAdvertisingTrackingEnabledState] =
+    useState<boolean | null>(null);
+  const [attStatus, setAttStatus] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [tracking, advertising, att] = await Promise.all([
+        LinkzlySDK.isTrackingEnabled(),
+        LinkzlySDK.isAdvertisingTrackingEnabled(),
+        Platform.OS === 'ios' ? LinkzlySDK.getATTStatus() : null,
+      ]);
+      setTrackingEnabledState(tracking);
+      setAdvertisingTrackingEnabledState(advertising);
+      setAttStatus(att);
+    } catch (error) {
+      console.error('[LinkzlySDK] Error getting tracking consent:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isConfigured) {
+      refresh();
+    }
+  }, [isConfigured, refresh]);
+  useStateChange(CONSENT_CHANGES, refresh);
+
+  return {
+    trackingEnabled,
+    advertisingTrackingEnabled,
+    attStatus,
+    setTrackingEnabled: useCallback(
+      (enabled: boolean) => LinkzlySDK.setTrackingEnabled(enabled),
+      []
+    ),
+    setAdvertisingTrackingEnabled: useCallback(
+      (enabled: boolean) => LinkzlySDK.setAdvertisingTrackingEnabled(enabled),
+      []
+    ),
+    requestTrackingPermission: useCallback(
+      () => LinkzlySDK.requestTrackingPermission(),
+      []
+    ),
+  };
+}
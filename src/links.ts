@@ -0,0 +1,134 @@
+import { buildQueryString, parseUrl, safeDecode } from './url';
+
+/**
+ * Link building
+ *
+ * `buildLongLink` builds links offline, with link metadata carried as query
+ * parameters.
+ */
+
+export interface LinkOptions {
+  /** Destination path inside the app, e.g. "/products/42" */
+  path: string;
+  /** Custom query parameters delivered with the deep link */
+  parameters?: Record<string, string | string[]>;
+  /** Campaign name (utm_campaign) */
+  campaign?: string;
+  /** Channel the link is shared through, e.g. "whatsapp" (utm_source) */
+  channel?: string;
+  /** Title for social previews (og_title) */
+  ogTitle?: string;
+  /** Image URL for social previews (og_image) */
+  ogImage?: string;
+  /** When the link stops working (exp, in seconds since epoch) */
+  expiresAt?: Date | number;
+}
+
+/**
+ * Query parameters used for link metadata; they can't be used as custom
+ * parameters. Attribution IDs are extracted from incoming links, so they are
+ * reserved as well.
+ */
+const METADATA_PARAMETERS: Record<
+  'campaign' | 'channel' | 'ogTitle' | 'ogImage' | 'expiresAt',
+  string
+> = {
+  campaign: 'utm_campaign',
+  channel: 'utm_source',
+  ogTitle: 'og_title',
+  ogImage: 'og_image',
+  expiresAt: 'exp',
+};
+const RESERVED_PARAMETERS = [
+  ...Object.values(METADATA_PARAMETERS),
+  'slid',
+  'smartLinkId',
+  'cid',
+  'clickId',
+];
+
+/**
+ * Get the query parameters for a link: custom parameters plus metadata
+ * @throws Error if a custom parameter can't be represented in a link
+ */
+function getLinkParameters(
+  options: LinkOptions
+): Record<string, string | string[]> {
+  const parameters: Record<string, string | string[]> = {};
+
+  Object.entries(options.parameters || {}).forEach(([key, value]) => {
+    if (!key || key.endsWith('[]')) {
+      throw new Error(`Invalid link parameter name: "${key}"`);
+    }
+    if (RESERVED_PARAMETERS.includes(key)) {
+      throw new Error(`Link parameter "${key}" is reserved`);
+    }
+    if (Array.isArray(value) && value.length === 0) {
+      throw new Error(`Link parameter "${key}" must have at least one value`);
+    }
+    parameters[key] = value;
+  });
+
+  if (options.campaign !== undefined) {
+    parameters[METADATA_PARAMETERS.campaign] = options.campaign;
+  }
+  if (options.channel !== undefined) {
+    parameters[METADATA_PARAMETERS.channel] = options.channel;
+  }
+  if (options.ogTitle !== undefined) {
+    parameters[METADATA_PARAMETERS.ogTitle] = options.ogTitle;
+  }
+  if (options.ogImage !== undefined) {
+    parameters[METADATA_PARAMETERS.ogImage] = options.ogImage;
+  }
+  if (options.expiresAt !== undefined) {
+    const expiresAt =
+      options.expiresAt instanceof Date
+        ? options.expiresAt.getTime()
+        : options.expiresAt;
+    parameters[METADATA_PARAMETERS.expiresAt] = String(
+      Math.floor(expiresAt / 1000)
+    );
+  }
+
+  return parameters;
+}
+
+/**
+ * Build a long link without contacting Linkzly
+ *
+ * Parsing the result yields the same path (percent-encoded) and parameters,
+ * including the metadata parameters. Long links aren't tracked as smart link
+ * clicks.
+ * @param baseUrl Scheme and host only, e.g. "https://link.example.com" or "myapp://"
+ * @param options Destination and metadata
+ * @throws Error if the base URL has a path, query or fragment, or a
+ * parameter can't be represented in a link
+ */
+export function buildLongLink(baseUrl: string, options: LinkOptions): string {
+  const base = parseUrl(baseUrl);
+  const isCustomScheme =
+    !!base.scheme && base.scheme !== 'http' && base.scheme !== 'https';
+  if (
+    !base.scheme ||
+    base.query !== undefined ||
+    base.fragment !== undefined ||
+    (isCustomScheme ? base.host !== undefined : base.path !== '/')
+  ) {
+    throw new Error(
+      `Invalid base URL for long link: "${baseUrl}". Use a scheme and host only, e.g. "https://link.example.com" or "myapp://"`
+    );
+  }
+
+  const path = options.path
+    .split('/')
+    .filter((segment) => segment.length > 0)
+    .map((segment) => encodeURIComponent(safeDecode(segment)))
+    .join('/');
+  const query = buildQueryString(getLinkParameters(options));
+
+  const root = isCustomScheme
+    ? `${base.scheme}://`
+    : baseUrl.trim().replace(/\/+$/, '') + '/';
+  return root + path + (query ? `?${query}` : '');
+}
@@ -0,0 +1,285 @@
+import { Linking } from 'react-native';
+import type { DeepLinkData } from './sdk';
+
+/**
+ * Optional React Navigation integration
+ *
+ * Nothing here imports `@react-navigation/*`; the types below describe the
+ * parts of React Navigation the integration relies on, so the SDK keeps zero
+ * JavaScript dependencies.
+ */
+
+type Subscribe = (
+  listener: (data: DeepLinkData, ack: () => void) => void
+) => () => void;
+
+/**
+ * The subset of React Navigation's `LinkingOptions` provided by the SDK
+ */
+export interface LinkzlyLinkingConfig {
+  getInitialURL: () => Promise<string | null>;
+  subscribe: (listener: (url: string) => void) => () => void;
+  /** Stop listening to the SDK, e.g. when the container unmounts for good */
+  dispose: () => void;
+}
+
+export interface LinkzlyLinkingOptions {
+  /**
+   * Map deep link data to the URL React Navigation should parse with its
+   * `prefixes`/`config`. Return null to ignore the link.
+   * Default: `data.url`
+   */
+  getURL?: (data: DeepLinkData) => string | null;
+  /**
+   * How long getInitialURL waits for the SDK to deliver the cold start link
+   * before falling back to the raw URL from `Linking` (default: 3000)
+   */
+  initialURLTimeoutMs?: number;
+}
+
+/**
+ * A route in a navigation stack. `children` describes the stack of a nested
+ * navigator; its last entry is the focused screen.
+ */
+export interface NavigationStackRoute {
+  name: string;
+  params?: object;
+  children?: NavigationStackRoute[];
+}
+
+/**
+ * Partial navigation state, as accepted by React Navigation's `reset`,
+ * `resetRoot` and `initialState`
+ */
+export interface PartialNavigationState {
+  index: number;
+  routes: Array<{
+    name: string;
+    params?: object;
+    state?: PartialNavigationState;
+  }>;
+}
+
+/**
+ * The subset of React Navigation's `NavigationContainerRef` used to navigate
+ */
+export interface NavigationContainerRefLike {
+  isReady(): boolean;
+  navigate(...args: any[]): void;
+  resetRoot?(state: PartialNavigationState): void;
+}
+
+export interface LinkzlyNavigationHandlerOptions {
+  /** Ref from `createNavigationContainerRef()` / `useNavigationContainerRef()` */
+  navigationRef: NavigationContainerRefLike;
+  /**
+   * Map deep link data to the stack to show, outermost navigator first.
+   * Return null to ignore the link.
+   */
+  resolve: (data: DeepLinkData) => NavigationStackRoute[] | null;
+}
+
+export interface LinkzlyNavigationHandler {
+  /**
+   * Navigate to a deep link now, or once the container is ready
+   * @returns Whether the link resolved to a navigation target
+   */
+  handle(data: DeepLinkData): boolean;
+  /** Pass to `NavigationContainer`'s `onReady` to flush queued links */
+  onReady(): void;
+  /** Start handling links from the SDK; returns a function to stop */
+  start(): () => void;
+}
+
+/**
+ * Build partial navigation state for a (possibly nested) stack of routes
+ * @example
+ * ```typescript
+ * buildNavigationState([
+ *   { name: 'Products', children: [
+ *     { name: 'ProductList' },
+ *     { name: 'ProductDetail', params: { productId: 42 } },
+ *   ]},
+ * ]);
+ * ```
+ */
+export function buildNavigationState(
+  routes: NavigationStackRoute[]
+): PartialNavigationState {
+  return {
+    index: Math.max(routes.length - 1, 0),
+    routes: routes.map((route) => ({
+      name: route.name,
+      params: route.params,
+      state:
+        route.children && route.children.length > 0
+          ? buildNavigationState(route.children)
+          : undefined,
+    })),
+  };
+}
+
+/**
+ * Create a `getInitialURL`/`subscribe` pair backed by the SDK's deep link
+ * pipeline, for use in React Navigation's `linking` prop
+ * Links are acked once their URL is handed to React Navigation, so they
+ * aren't replayed to listeners that subscribe later.
+ * Exposed as LinkzlySDK.createNavigationLinking()
+ */
+export function createNavigationLinking(
+  subscribeToDeepLinks: Subscribe,
+  options: LinkzlyLinkingOptions = {}
+): LinkzlyLinkingConfig {
+  const getURL = options.getURL || ((data: DeepLinkData) => data.url || null);
+  const timeoutMs = options.initialURLTimeoutMs ?? 3000;
+
+  // Links delivered before React Navigation subscribes
+  const queue: Array<{ data: DeepLinkData; ack: () => void }> = [];
+  let forward: ((data: DeepLinkData, ack: () => void) => void) | null = null;
+  let resolveInitial: ((data: DeepLinkData, ack: () => void) => void) | null =
+    null;
+  // Raw cold start URL used after a timeout; skipped if the SDK delivers it late
+  let fallbackURL: string | null = null;
+
+  // The URL to hand to React Navigation, acking the link if there is one
+  const take = (data: DeepLinkData, ack: () => void): string | null => {
+    const url = getURL(data);
+    if (url) {
+      ack();
+    }
+    return url;
+  };
+
+  // Listen from creation so nothing is missed while the container mounts
+  const unsubscribe = subscribeToDeepLinks((data, ack) => {
+    if (resolveInitial) {
+      resolveInitial(data, ack);
+    } else if (fallbackURL && data.url === fallbackURL) {
+      // React Navigation already opened the raw URL
+      fallbackURL = null;
+      ack();
+    } else if (forward) {
+      forward(data, ack);
+    } else {
+      queue.push({ data, ack });
+    }
+  });
+
+  return {
+    async getInitialURL(): Promise<string | null> {
+      const queued = queue.shift();
+      if (queued) {
+        return take(queued.data, queued.ack);
+      }
+
+      const initialURL = await Linking.getInitialURL().catch(() => null);
+      if (!initialURL) {
+        return null;
+      }
+
+      // Wait for the SDK to deliver the parsed/attributed cold start link
+      return new Promise<string | null>((resolve) => {
+        const timer = setTimeout(() => {
+          resolveInitial = null;
+          fallbackURL = initialURL;
+          resolve(initialURL);
+        }, timeoutMs);
+        resolveInitial = (data, ack) => {
+          clearTimeout(timer);
+          resolveInitial = null;
+          resolve(take(data, ack));
+        };
+      });
+    },
+
+    subscribe(listener: (url: string) => void): () => void {
+      const deliver = (data: DeepLinkData, ack: () => void) => {
+        const url = take(data, ack);
+        if (url) {
+          listener(url);
+        }
+      };
+
+      forward = deliver;
+      queue.splice(0).forEach(({ data, ack }) => deliver(data, ack));
+
+      return () => {
+        if (forward === deliver) {
+          forward = null;
+        }
+      };
+    },
+
+    dispose(): void {
+      unsubscribe();
+      forward = null;
+      queue.length = 0;
+    },
+  };
+}
+
+/**
+ * Create a handler that navigates to deep links through a navigation ref,
+ * queueing links until the container is ready
+ * Exposed as LinkzlySDK.createNavigationHandler()
+ */
+export function createNavigationHandler(
+  subscribeToDeepLinks: Subscribe,
+  options: LinkzlyNavigationHandlerOptions
+): LinkzlyNavigationHandler {
+  const { navigationRef, resolve } = options;
+  const queue: NavigationStackRoute[][] = [];
+
+  const navigate = (routes: NavigationStackRoute[]) => {
+    // Several routes in the root navigator: replace the whole root stack
+    if (routes.length > 1 && navigationRef.resetRoot) {
+      navigationRef.resetRoot(buildNavigationState(routes));
+      return;
+    }
+
+    // Navigate to the outermost route and hand nested navigators their
+    // whole stack at once, so screens below the target are in place
+    const root = routes[routes.length - 1];
+    if (root.children && root.children.length > 0) {
+      navigationRef.navigate(root.name, {
+        ...root.params,
+        state: buildNavigationState(root.children),
+      });
+    } else {
+      navigationRef.navigate(root.name, root.params);
+    }
+  };
+
+  const handler: LinkzlyNavigationHandler = {
+    handle(data: DeepLinkData): boolean {
+      const routes = resolve(data);
+      if (!routes || routes.length === 0) {
+        console.log(
+          '[LinkzlySDK] No navigation target for deep link:',
+          data.path
+        );
+        return false;
+      }
+      if (navigationRef.isReady()) {
+        navigate(routes);
+      } else {
+        queue.push(routes);
+      }
+      return true;
+    },
+
+    onReady(): void {
+      queue.splice(0).forEach(navigate);
+    },
+
+    start(): () => void {
+      return subscribeToDeepLinks((data, ack) => {
+        if (handler.handle(data)) {
+          ack();
+        }
+      });
+    },
+  };
+
+  return handler;
+}
@@ -0,0 +1,280 @@
+import type { BatchEvent, EventParameters } from './sdk';
+
+/**
+ * Event validation and parameter normalization
+ *
+ * Runs before events cross the bridge, so native `ReadableMap` conversion only
+ * sees strings, finite numbers, booleans, null, and arrays/plain objects of
+ * those. Dates become ISO 8601 strings. In lenient mode problems are fixed by
+ * dropping the offending value (or event) with a warning; in strict mode they
+ * throw an EventValidationError.
+ */
+
+export interface EventValidationOptions {
+  /** "lenient" drops invalid values with a warning, "strict" throws (default: "lenient") */
+  mode?: 'strict' | 'lenient';
+  /** Maximum event name length (default: 100) */
+  maxNameLength?: number;
+  /** Maximum parameter key length (default: 100) */
+  maxKeyLength?: number;
+  /**
+   * Maximum number of top-level parameters passed to a tracking call; super
+   * properties and the attribution context are added on top (default: 100)
+   */
+  maxParameters?: number;
+}
+
+export type EventValidationIssueCode =
+  | 'invalid_name'
+  | 'reserved_name'
+  | 'key_too_long'
+  | 'too_many_parameters'
+  | 'unsupported_value';
+
+export interface EventValidationIssue {
+  /** Event the issue was found in; absent for super properties */
+  eventName?: string;
+  /** Parameter path, e.g. "items.0.price" */
+  key?: string;
+  code: EventValidationIssueCode;
+  message: string;
+}
+
+/**
+ * Thrown by trackEvent()/trackEventBatch(), trackPurchase() and
+ * registerSuperProperties() in strict mode
+ */
+export class EventValidationError extends Error {
+  readonly issues: EventValidationIssue[];
+
+  constructor(issues: EventValidationIssue[]) {
+    super('Invalid event: ' + issues.map((issue) => issue.message).join('; '));
+    this.name = 'EventValidationError';
+    Object.setPrototypeOf(this, EventValidationError.prototype);
+    this.issues = issues;
+  }
+}
+
+/**
+ * Event names tracked by dedicated SDK methods; tracking them as custom
+ * events would be counted twice or misattributed
+ */
+export const RESERVED_EVENT_NAMES = [
+  'install',
+  'open',
+  'purchase',
+  'session_start',
+  'session_end',
+];
+const RESERVED_EVENT_PREFIX = 'linkzly_';
+
+const MAX_DEPTH = 3;
+
+export const DEFAULT_EVENT_VALIDATION: Required<EventValidationOptions> = {
+  mode: 'lenient',
+  maxNameLength: 100,
+  maxKeyLength: 100,
+  maxParameters: 100,
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Validate an event name and normalize its parameters
+ * The context (super properties, attribution) is merged in afterwards, so it
+ * never pushes the caller's own parameters over the limit.
+ * @param context Already normalized parameters added to the event; the
+ * event's own parameters take precedence
+ * @returns The normalized event (null if the name is invalid) and any issues
+ */
+export function normalizeEvent(
+  eventName: string,
+  parameters: EventParameters | undefined,
+  options: Required<EventValidationOptions>,
+  context: EventParameters = {}
+): { event: BatchEvent | null; issues: EventValidationIssue[] } {
+  const issues: EventValidationIssue[] = [];
+  const name = typeof eventName === 'string' ? eventName.trim() : '';
+
+  if (!name || name.length > options.maxNameLength) {
+    issues.push({
+      eventName: String(eventName),
+      code: 'invalid_name',
+      message: `Event name must be a non-empty string of at most ${options.maxNameLength} characters, got ${JSON.stringify(eventName)}`,
+    });
+    return { event: null, issues };
+  }
+  if (
+    RESERVED_EVENT_NAMES.includes(name.toLowerCase()) ||
+    name.toLowerCase().startsWith(RESERVED_EVENT_PREFIX)
+  ) {
+    issues.push({
+      eventName: name,
+      code: 'reserved_name',
+      message: `Event name "${name}" is reserved; use the dedicated SDK method instead`,
+    });
+    return { event: null, issues };
+  }
+
+  const normalized = normalizeParameters(parameters, options, issues, name);
+  return {
+    event: { eventName: name, parameters: { ...context, ...normalized } },
+    issues,
+  };
+}
+
+/**
+ * Normalize the parameters of an event the SDK tracks under a reserved name,
+ * e.g. purchase; the name itself isn't validated
+ * @param context Already normalized parameters added to the event; the
+ * event's own parameters take precedence
+ * @returns The parameters to send and any issues
+ */
+export function normalizeReservedEventParameters(
+  eventName: string,
+  parameters: EventParameters | undefined,
+  options: Required<EventValidationOptions>,
+  context: EventParameters = {}
+): { parameters: EventParameters; issues: EventValidationIssue[] } {
+  const issues: EventValidationIssue[] = [];
+  const normalized = normalizeParameters(
+    parameters,
+    options,
+    issues,
+    eventName
+  );
+  return { parameters: { ...context, ...normalized }, issues };
+}
+
+/**
+ * Normalize super properties before they are registered
+ * They are added to every event on top of its own parameters, so only
+ * their keys and values are checked, not their count.
+ * @returns The properties to register and any issues
+ */
+export function normalizeSuperProperties(
+  properties: EventParameters,
+  options: Required<EventValidationOptions>
+): { properties: EventParameters; issues: EventValidationIssue[] } {
+  const issues: EventValidationIssue[] = [];
+  const normalized = normalizeParameters(properties, options, issues);
+  return { properties: normalized, issues };
+}
+
+/**
+ * Normalize parameters, adding any issues found
+ * @param eventName Event the parameters belong to; omitted for super
+ * properties, which aren't limited in count
+ */
+function normalizeParameters(
+  parameters: EventParameters | undefined,
+  options: Required<EventValidationOptions>,
+  issues: EventValidationIssue[],
+  eventName?: string
+): EventParameters {
+  const source =
+    eventName === undefined ? 'super properties' : `"${eventName}"`;
+
+  const unsupported = (key: string, value: unknown, reason: string) => {
+    issues.push({
+      eventName,
+      key,
+      code: 'unsupported_value',
+      message: `Dropped "${key}" from ${source}: ${reason} (${typeof value})`,
+    });
+  };
+
+  // Returns undefined for values that should be dropped
+  const normalizeValue = (
+    key: string,
+    value: unknown,
+    depth: number
+  ): unknown => {
+    if (value === null || typeof value === 'string') {
+      return value;
+    }
+    if (typeof value === 'boolean') {
+      return value;
+    }
+    if (typeof value === 'number') {
+      if (Number.isFinite(value)) {
+        return value;
+      }
+      unsupported(key, value, 'NaN and Infinity are not supported');
+      return undefined;
+    }
+    if (value instanceof Date) {
+      if (Number.isNaN(value.getTime())) {
+        unsupported(key, value, 'invalid date');
+        return undefined;
+      }
+      return value.toISOString();
+    }
+    if (value === undefined) {
+      unsupported(key, value, 'value is undefined');
+      return undefined;
+    }
+    if (Array.isArray(value) || isPlainObject(value)) {
+      if (depth >= MAX_DEPTH) {
+        unsupported(key, value, `nesting deeper than ${MAX_DEPTH} levels`);
+        return undefined;
+      }
+      if (Array.isArray(value)) {
+        return value
+          .map((item, index) =>
+            normalizeValue(`${key}.${index}`, item, depth + 1)
+          )
+          .filter((item) => item !== undefined);
+      }
+      const nested: Record<string, unknown> = {};
+      Object.entries(value).forEach(([nestedKey, nestedValue]) => {
+        const normalized = normalizeValue(
+          `${key}.${nestedKey}`,
+          nestedValue,
+          depth + 1
+        );
+        if (normalized !== undefined) {
+          nested[nestedKey] = normalized;
+        }
+      });
+      return nested;
+    }
+    unsupported(key, value, 'unsupported type');
+    return undefined;
+  };
+
+  const normalized: EventParameters = {};
+  const entries = Object.entries(parameters || {});
+  const limit =
+    eventName === undefined ? entries.length : options.maxParameters;
+  if (entries.length > limit) {
+    issues.push({
+      eventName,
+      code: 'too_many_parameters',
+      message: `${source} has ${entries.length} parameters; only the first ${limit} are kept`,
+    });
+  }
+  entries.slice(0, limit).forEach(([key, value]) => {
+    if (key.length > options.maxKeyLength) {
+      issues.push({
+        eventName,
+        key,
+        code: 'key_too_long',
+        message: `Dropped "${key}" from ${source}: keys are limited to ${options.maxKeyLength} characters`,
+      });
+      return;
+    }
+    const normalizedValue = normalizeValue(key, value, 0);
+    if (normalizedValue !== undefined) {
+      normalized[key] = normalizedValue;
+    }
+  });
+
+  return normalized;
+}
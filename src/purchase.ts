@@ -0,0 +1,300 @@
+import type { EventParameters } from './sdk';
+
+/**
+ * Typed purchase input for trackPurchase()
+ *
+ * Amounts are validated and converted to the currency's minor units (cents
+ * for USD, yen for JPY) before any arithmetic, so totals don't pick up
+ * floating point error. Revenue is reported in both minor units and decimals.
+ */
+
+export interface PurchaseLineItem {
+  sku: string;
+  /** Positive whole number of units */
+  quantity: number;
+  /** Price of one unit in decimal currency units, e.g. 9.99 */
+  unitPrice: number;
+  name?: string;
+}
+
+export interface Purchase {
+  /** ISO 4217 currency code, e.g. "USD" */
+  currency: string;
+  /** Line items; the subtotal is computed from them */
+  items?: PurchaseLineItem[];
+  /** Subtotal in decimal currency units, when not using line items */
+  amount?: number;
+  tax?: number;
+  shipping?: number;
+  /** Subtracted from the total */
+  discount?: number;
+  /** Order or store transaction ID */
+  transactionId?: string;
+  /** Additional custom parameters */
+  parameters?: EventParameters;
+}
+
+export type PurchaseValidationIssueCode =
+  | 'missing'
+  | 'invalid_currency'
+  | 'invalid_amount'
+  | 'invalid_quantity'
+  | 'invalid_type'
+  | 'conflict';
+
+export interface PurchaseValidationIssue {
+  /** Field path, e.g. "currency" or "items[1].quantity" */
+  field: string;
+  code: PurchaseValidationIssueCode;
+  message: string;
+  received?: unknown;
+}
+
+/**
+ * Thrown by trackPurchase() before anything is sent when the purchase is invalid
+ */
+export class PurchaseValidationError extends Error {
+  readonly issues: PurchaseValidationIssue[];
+
+  constructor(issues: PurchaseValidationIssue[]) {
+    super(
+      'Invalid purchase: ' + issues.map((issue) => issue.message).join('; ')
+    );
+    this.name = 'PurchaseValidationError';
+    Object.setPrototypeOf(this, PurchaseValidationError.prototype);
+    this.issues = issues;
+  }
+}
+
+/** Parameters sent to the native trackPurchase for a valid purchase */
+export interface PurchaseParameters extends EventParameters {
+  currency: string;
+  /** Total in decimal units (kept as `amount` for the native SDKs) */
+  amount: number;
+  revenue: number;
+  revenue_minor: number;
+  subtotal_minor: number;
+  tax_minor: number;
+  shipping_minor: number;
+  discount_minor: number;
+}
+
+export type PurchaseValidationResult =
+  | { success: true; value: PurchaseParameters }
+  | { success: false; error: PurchaseValidationError };
+
+// Active ISO 4217 codes
+const CURRENCY_CODES = new Set(
+  (
+    'AED AFN ALL AMD ANG AOA ARS AUD AWG AZN BAM BBD BDT BGN BHD BIF BMD BND ' +
+    'BOB BOV BRL BSD BTN BWP BYN BZD CAD CDF CHE CHF CHW CLF CLP CNY COP COU ' +
+    'CRC CUP CVE CZK DJF DKK DOP DZD EGP ERN ETB EUR FJD FKP GBP GEL GHS GIP ' +
+    'GMD GNF GTQ GYD HKD HNL HTG HUF IDR ILS INR IQD IRR ISK JMD JOD JPY KES ' +
+    'KGS KHR KMF KPW KRW KWD KYD KZT LAK LBP LKR LRD LSL LYD MAD MDL MGA MKD ' +
+    'MMK MNT MOP MRU MUR MVR MWK MXN MXV MYR MZN NAD NGN NIO NOK NPR NZD OMR ' +
+    'PAB PEN PGK PHP PKR PLN PYG QAR RON RSD RUB RWF SAR SBD SCR SDG SEK SGD ' +
+    'SHP SLE SOS SRD SSP STN SVC SYP SZL THB TJS TMT TND TOP TRY TTD TWD TZS ' +
+    'UAH UGX USD USN UYI UYU UYW UZS VED VES VND VUV WST XAF XCD XCG XOF XPF ' +
+    'YER ZAR ZMW ZWG'
+  ).split(' ')
+);
+
+// Currencies whose minor unit isn't 1/100
+// prettier-ignore
+const CURRENCY_EXPONENTS: Record<string, number> = {
+  BIF: 0, CLP: 0, DJF: 0, GNF: 0, ISK: 0, JPY: 0, KMF: 0, KRW: 0, PYG: 0,
+  RWF: 0, UGX: 0, UYI: 0, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+  BHD: 3, IQD: 3, JOD: 3, KWD: 3, LYD: 3, OMR: 3, TND: 3,
+  CLF: 4, UYW: 4,
+};
+
+const PURCHASE_FIELDS = [
+  'currency',
+  'items',
+  'amount',
+  'tax',
+  'shipping',
+  'discount',
+  'transactionId',
+  'parameters',
+];
+
+/**
+ * Check whether a code is an active ISO 4217 currency (case-insensitive)
+ */
+export function isCurrencyCode(code: unknown): boolean {
+  return typeof code === 'string' && CURRENCY_CODES.has(code.toUpperCase());
+}
+
+/**
+ * Validate a purchase and compute its revenue
+ */
+export function validatePurchase(purchase: Purchase): PurchaseValidationResult {
+  const issues: PurchaseValidationIssue[] = [];
+  const input = (purchase || {}) as Partial<Purchase>;
+  // Untyped callers may mix custom keys in at the top level; keep them
+  const extraParameters: EventParameters = {};
+  Object.entries(input).forEach(([key, value]) => {
+    if (!PURCHASE_FIELDS.includes(key)) {
+      extraParameters[key] = value;
+    }
+  });
+
+  let currency = '';
+  if (input.currency === undefined || input.currency === null) {
+    issues.push({
+      field: 'currency',
+      code: 'missing',
+      message: 'currency is required',
+    });
+  } else if (!isCurrencyCode(input.currency)) {
+    issues.push({
+      field: 'currency',
+      code: 'invalid_currency',
+      message: `currency must be an ISO 4217 code, got "${String(input.currency)}"`,
+      received: input.currency,
+    });
+  } else {
+    currency = input.currency.toUpperCase();
+  }
+  const factor = Math.pow(10, CURRENCY_EXPONENTS[currency] ?? 2);
+
+  // Convert a decimal amount to minor units, recording an issue if invalid
+  const toMinor = (field: string, value: unknown): number => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      issues.push({
+        field,
+        code: 'invalid_amount',
+        message: `${field} must be a non-negative number, got ${JSON.stringify(value)}`,
+        received: value,
+      });
+      return 0;
+    }
+    return Math.round(value * factor);
+  };
+
+  let subtotalMinor = 0;
+  const items: Record<string, unknown>[] = [];
+  if (input.items !== undefined) {
+    if (!Array.isArray(input.items)) {
+      issues.push({
+        field: 'items',
+        code: 'invalid_type',
+        message: 'items must be an array',
+        received: input.items,
+      });
+    } else {
+      if (input.items.length === 0) {
+        issues.push({
+          field: 'items',
+          code: 'missing',
+          message: 'items must not be empty',
+        });
+      }
+      if (input.amount !== undefined) {
+        issues.push({
+          field: 'amount',
+          code: 'conflict',
+          message: 'Pass either amount or items, not both',
+        });
+      }
+      input.items.forEach((item, index) => {
+        const field = `items[${index}]`;
+        if (typeof item?.sku !== 'string' || !item.sku) {
+          issues.push({
+            field: `${field}.sku`,
+            code: 'missing',
+            message: `${field}.sku is required`,
+            received: item?.sku,
+          });
+        }
+        if (
+          typeof item?.quantity !== 'number' ||
+          !Number.isInteger(item.quantity) ||
+          item.quantity <= 0
+        ) {
+          issues.push({
+            field: `${field}.quantity`,
+            code: 'invalid_quantity',
+            message: `${field}.quantity must be a positive whole number, got ${JSON.stringify(item?.quantity)}`,
+            received: item?.quantity,
+          });
+        }
+        const unitPriceMinor = toMinor(`${field}.unitPrice`, item?.unitPrice);
+        const quantity = Number.isInteger(item?.quantity) ? item.quantity : 0;
+        subtotalMinor += unitPriceMinor * quantity;
+        items.push({
+          sku: item?.sku,
+          quantity: item?.quantity,
+          unit_price: unitPriceMinor / factor,
+          unit_price_minor: unitPriceMinor,
+          ...(item?.name !== undefined ? { name: item.name } : {}),
+        });
+      });
+    }
+  } else if (input.amount === undefined) {
+    issues.push({
+      field: 'amount',
+      code: 'missing',
+      message: 'amount or items is required',
+    });
+  } else {
+    subtotalMinor = toMinor('amount', input.amount);
+  }
+
+  const taxMinor = input.tax !== undefined ? toMinor('tax', input.tax) : 0;
+  const shippingMinor =
+    input.shipping !== undefined ? toMinor('shipping', input.shipping) : 0;
+  const discountMinor =
+    input.discount !== undefined ? toMinor('discount', input.discount) : 0;
+  const revenueMinor = subtotalMinor + taxMinor + shippingMinor - discountMinor;
+  if (revenueMinor < 0) {
+    issues.push({
+      field: 'discount',
+      code: 'invalid_amount',
+      message: 'discount must not exceed subtotal plus tax and shipping',
+      received: input.discount,
+    });
+  }
+
+  if (
+    input.transactionId !== undefined &&
+    (typeof input.transactionId !== 'string' || !input.transactionId)
+  ) {
+    issues.push({
+      field: 'transactionId',
+      code: 'invalid_type',
+      message: 'transactionId must be a non-empty string',
+      received: input.transactionId,
+    });
+  }
+
+  if (issues.length > 0) {
+    return { success: false, error: new PurchaseValidationError(issues) };
+  }
+
+  const revenue = revenueMinor / factor;
+  return {
+    success: true,
+    value: {
+      ...extraParameters,
+      ...input.parameters,
+      currency,
+      amount: revenue,
+      revenue,
+      revenue_minor: revenueMinor,
+      subtotal: subtotalMinor / factor,
+      subtotal_minor: subtotalMinor,
+      tax: taxMinor / factor,
+      tax_minor: taxMinor,
+      shipping: shippingMinor / factor,
+      shipping_minor: shippingMinor,
+      discount: discountMinor / factor,
+      discount_minor: discountMinor,
+      ...(items.length > 0 ? { items } : {}),
+      ...(input.transactionId !== undefined
+        ? { transaction_id: input.transactionId }
+        : {}),
+    },
+  };
+}
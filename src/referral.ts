@@ -0,0 +1,94 @@
+import type { DeepLinkData } from './sdk';
+import type { LinkOptions } from './links';
+
+/**
+ * Referral attribution
+ *
+ * Invite links carry the inviter ID (and optional reward) as query
+ * parameters. The first inviter seen at install time is persisted as the
+ * referrer and reported with referral events.
+ */
+
+export interface Referrer {
+  /** ID of the user who shared the invite link */
+  inviterId: string;
+  /** Reward attached to the invite link */
+  reward?: string;
+  smartLinkId?: string;
+  clickId?: string;
+  /** When the install was attributed to the inviter (ms since epoch) */
+  attributedAt: number;
+}
+
+export const INVITER_ID_PARAMETER = 'inviter_id';
+export const REWARD_PARAMETER = 'reward';
+export const REFERRAL_INSTALL_EVENT = 'referral_install';
+export const REFERRAL_CONVERSION_EVENT = 'referral_conversion';
+
+/**
+ * Build the link options for an invite link
+ * @param inviterId ID of the inviting user
+ * @param reward Optional reward attached to the invite
+ * @param options Overrides for path, campaign and other link options
+ */
+export function getInviteLinkOptions(
+  inviterId: string,
+  reward?: string,
+  options: Partial<LinkOptions> = {}
+): LinkOptions {
+  if (!inviterId) {
+    throw new Error('createInviteLink requires an inviter ID');
+  }
+  return {
+    path: '/invite',
+    campaign: 'referral',
+    ...options,
+    parameters: {
+      ...options.parameters,
+      [INVITER_ID_PARAMETER]: inviterId,
+      ...(reward !== undefined ? { [REWARD_PARAMETER]: reward } : {}),
+    },
+  };
+}
+
+/**
+ * Read the referrer from an invite deep link
+ * @returns The referrer, or null if the link isn't an invite link
+ */
+export function getReferrerFromDeepLink(
+  data: DeepLinkData | null | undefined
+): Referrer | null {
+  const inviterId = data?.parameters?.[INVITER_ID_PARAMETER];
+  if (!data || typeof inviterId !== 'string' || !inviterId) {
+    return null;
+  }
+  const reward = data.parameters[REWARD_PARAMETER];
+  return {
+    inviterId,
+    reward: typeof reward === 'string' ? reward : undefined,
+    smartLinkId: data.smartLinkId || undefined,
+    clickId: data.clickId || undefined,
+    attributedAt: Date.now(),
+  };
+}
+
+/**
+ * Event parameters identifying a referrer
+ */
+export function getReferrerEventParameters(
+  referrer: Referrer
+): Record<string, string> {
+  const parameters: Record<string, string> = {
+    [INVITER_ID_PARAMETER]: referrer.inviterId,
+  };
+  if (referrer.reward !== undefined) {
+    parameters[REWARD_PARAMETER] = referrer.reward;
+  }
+  if (referrer.smartLinkId) {
+    parameters.smart_link_id = referrer.smartLinkId;
+  }
+  if (referrer.clickId) {
+    parameters.click_id = referrer.clickId;
+  }
+  return parameters;
+}
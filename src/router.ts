@@ -0,0 +1,246 @@
+import type { DeepLinkData } from './sdk';
+import { safeDecode } from './url';
+
+/**
+ * Path params extracted from a route pattern
+ * e.g. ExtractRouteParams<'/products/:id/reviews/:reviewId'> is
+ * `{ id: string; reviewId: string }`
+ */
+export type ExtractRouteParams<Pattern extends string> =
+  Pattern extends `${string}:${infer Param}/${infer Rest}`
+    ? { [K in Param]: string } & ExtractRouteParams<`/${Rest}`>
+    : Pattern extends `${string}:${infer Param}`
+      ? { [K in Param]: string }
+      : {};
+
+export interface DeepLinkRouteMatch<Params = Record<string, string>> {
+  /** Pattern of the route that matched */
+  pattern: string;
+  /** Decoded path params */
+  params: Params;
+  /** Remainder of the path matched by a trailing "*", without leading "/" */
+  wildcard?: string;
+}
+
+export type DeepLinkRouteHandler<Params = Record<string, string>> = (
+  match: DeepLinkRouteMatch<Params>,
+  data: DeepLinkData
+) => void;
+
+export interface DeepLinkRoute<Params = Record<string, string>> {
+  /** Route pattern, e.g. "/products/:id" or "/promo/*" */
+  pattern: string;
+  handler: DeepLinkRouteHandler<Params>;
+  /** Higher priority routes are tried first (default: 0) */
+  priority?: number;
+}
+
+export interface DeepLinkRouterOptions {
+  /** Routes to register up front; more can be added with `route()` */
+  routes?: DeepLinkRoute<any>[];
+  /** Called when no route matches the deep link path */
+  onNotFound?: (data: DeepLinkData) => void;
+  /** Match literal segments case-sensitively (default: false) */
+  caseSensitive?: boolean;
+}
+
+type Subscribe = (
+  listener: (data: DeepLinkData, ack: () => void) => void
+) => () => void;
+
+interface CompiledRoute {
+  route: DeepLinkRoute<any>;
+  segments: string[];
+  hasWildcard: boolean;
+  literalCount: number;
+  order: number;
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter((segment) => segment.length > 0);
+}
+
+/**
+ * Declarative deep link router
+ *
+ * Routes are matched against `DeepLinkData.path` by priority, then by
+ * specificity (more literal segments first), then by registration order.
+ * Use `LinkzlySDK.createDeepLinkRouter()` to get a router that subscribes
+ * through the SDK's deep link listener pipeline.
+ */
+export class DeepLinkRouter {
+  private routes: CompiledRoute[] = [];
+  private nextOrder = 0;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(
+    private readonly options: DeepLinkRouterOptions = {},
+    private readonly subscribe?: Subscribe
+  ) {
+    (options.routes || []).forEach((route) => this.addRoute(route));
+  }
+
+  /**
+   * Register a route with path params typed from the pattern
+   * @returns The router, for chaining
+   */
+  route<Pattern extends string>(
+    pattern: Pattern,
+    handler: DeepLinkRouteHandler<ExtractRouteParams<Pattern>>,
+    options?: { priority?: number }
+  ): this {
+    this.addRoute({ pattern, handler, priority: options?.priority });
+    return this;
+  }
+
+  /**
+   * Register a route object
+   * @returns Function to remove the route
+   */
+  addRoute(route: DeepLinkRoute<any>): () => void {
+    const segments = splitPath(route.pattern);
+    const wildcardIndex = segments.indexOf('*');
+    if (wildcardIndex !== -1 && wildcardIndex !== segments.length - 1) {
+      throw new Error(
+        `Invalid route pattern "${route.pattern}": "*" is only allowed as the last segment`
+      );
+    }
+
+    const compiled: CompiledRoute = {
+      route,
+      segments: wildcardIndex === -1 ? segments : segments.slice(0, -1),
+      hasWildcard: wildcardIndex !== -1,
+      literalCount: segments.filter((s) => s !== '*' && !s.startsWith(':'))
+        .length,
+      order: this.nextOrder++,
+    };
+
+    this.routes.push(compiled);
+    this.routes.sort(
+      (a, b) =>
+        (b.route.priority || 0) - (a.route.priority || 0) ||
+        b.literalCount - a.literalCount ||
+        Number(a.hasWildcard) - Number(b.hasWildcard) ||
+        a.order - b.order
+    );
+
+    return () => {
+      this.routes = this.routes.filter((r) => r !== compiled);
+    };
+  }
+
+  /**
+   * Find the route matching a path without dispatching
+   */
+  match(path: string): DeepLinkRouteMatch | null {
+    const found = this.findRoute(path);
+    return found ? found.routeMatch : null;
+  }
+
+  /**
+   * Dispatch deep link data to the first matching route
+   * @returns Whether a route handled the link
+   */
+  dispatch(data: DeepLinkData): boolean {
+    const path = data.path || '/';
+    const found = this.findRoute(path);
+
+    if (!found) {
+      console.log('[LinkzlySDK] No deep link route matched:', path);
+      this.options.onNotFound?.(data);
+      return false;
+    }
+
+    try {
+      found.route.handler(found.routeMatch, data);
+    } catch (error) {
+      console.error('[LinkzlySDK] Error in deep link route handler:', error);
+    }
+    return true;
+  }
+
+  /**
+   * Start receiving deep links from the SDK
+   * @returns Function to stop the router
+   */
+  start(): () => void {
+    if (!this.subscribe) {
+      throw new Error(
+        'This router is not connected to the SDK. Create it with LinkzlySDK.createDeepLinkRouter() or call dispatch() manually.'
+      );
+    }
+    if (!this.unsubscribe) {
+      // Links a route handled are consumed, so they aren't replayed to
+      // listeners that subscribe later
+      this.unsubscribe = this.subscribe((data, ack) => {
+        if (this.dispatch(data)) {
+          ack();
+        }
+      });
+    }
+    return () => this.stop();
+  }
+
+  /**
+   * Stop receiving deep links from the SDK
+   */
+  stop(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+  }
+
+  private findRoute(
+    path: string
+  ): { route: DeepLinkRoute<any>; routeMatch: DeepLinkRouteMatch } | null {
+    const pathSegments = splitPath(path);
+
+    for (const compiled of this.routes) {
+      const params = this.matchSegments(compiled, pathSegments);
+      if (params) {
+        return {
+          route: compiled.route,
+          routeMatch: {
+            pattern: compiled.route.pattern,
+            params,
+            wildcard: compiled.hasWildcard
+              ? pathSegments.slice(compiled.segments.length).join('/')
+              : undefined,
+          },
+        };
+      }
+    }
+    return null;
+  }
+
+  private matchSegments(
+    compiled: CompiledRoute,
+    pathSegments: string[]
+  ): Record<string, string> | null {
+    const { segments, hasWildcard } = compiled;
+    if (
+      pathSegments.length < segments.length ||
+      (!hasWildcard && pathSegments.length !== segments.length)
+    ) {
+      return null;
+    }
+
+    const params: Record<string, string> = {};
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      const value = pathSegments[i];
+
+      if (segment.startsWith(':')) {
+        params[segment.slice(1)] = safeDecode(value);
+      } else if (this.options.caseSensitive) {
+        if (segment !== value) {
+          return null;
+        }
+      } else if (segment.toLowerCase() !== value.toLowerCase()) {
+        return null;
+      }
+    }
+    return params;
+  }
+}
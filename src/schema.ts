@@ -0,0 +1,268 @@
+/**
+ * Typed parameter schemas for deep link payloads
+ *
+ * A schema maps parameter names to specs built with `DeepLinkParam`. Query
+ * parameters always arrive as strings; validation coerces them to the declared
+ * type, applies defaults and reports every problem found in one error.
+ */
+
+export type DeepLinkParamType =
+  'string' | 'number' | 'boolean' | 'enum' | 'date';
+
+export interface DeepLinkParamSpec<
+  T = unknown,
+  Required extends boolean = boolean,
+> {
+  type: DeepLinkParamType;
+  required: Required;
+  default?: T;
+  /** Allowed values for `enum` parameters */
+  values?: readonly string[];
+}
+
+export type DeepLinkSchema = Record<string, DeepLinkParamSpec>;
+
+/**
+ * Parameter object type produced by a schema
+ * Required parameters and parameters with defaults are always defined
+ */
+export type InferDeepLinkParams<S extends DeepLinkSchema> = {
+  [K in keyof S]: S[K] extends DeepLinkParamSpec<infer T, infer R>
+    ? R extends true
+      ? T
+      : T | undefined
+    : never;
+};
+
+export type DeepLinkValidationIssueCode =
+  'missing' | 'invalid_type' | 'invalid_enum';
+
+export interface DeepLinkValidationIssue {
+  key: string;
+  code: DeepLinkValidationIssueCode;
+  message: string;
+  received?: unknown;
+}
+
+/**
+ * Raised (or handed to `onError`) when a deep link doesn't match its schema
+ */
+export class DeepLinkValidationError extends Error {
+  readonly issues: DeepLinkValidationIssue[];
+  readonly path?: string;
+  readonly url?: string;
+
+  constructor(issues: DeepLinkValidationIssue[], path?: string, url?: string) {
+    super(
+      `Invalid deep link parameters${path ? ` for ${path}` : ''}: ` +
+        issues.map((issue) => issue.message).join('; ')
+    );
+    this.name = 'DeepLinkValidationError';
+    // Keep instanceof working when classes are transpiled to ES5
+    Object.setPrototypeOf(this, DeepLinkValidationError.prototype);
+    this.issues = issues;
+    this.path = path;
+    this.url = url;
+  }
+}
+
+export type DeepLinkValidationResult<T> =
+  | { success: true; value: T }
+  | { success: false; error: DeepLinkValidationError };
+
+type RequiredOptions<T> = { required: true; default?: T } | { default: T };
+type OptionalOptions = { required?: false };
+
+function createSpec(
+  type: DeepLinkParamType,
+  options: { required?: boolean; default?: unknown } = {},
+  values?: readonly string[]
+): DeepLinkParamSpec<any, any> {
+  return {
+    type,
+    required: options.required === true || options.default !== undefined,
+    default: options.default,
+    values,
+  };
+}
+
+function string(
+  options: RequiredOptions<string>
+): DeepLinkParamSpec<string, true>;
+function string(options?: OptionalOptions): DeepLinkParamSpec<string, false>;
+function string(options?: { required?: boolean; default?: string }) {
+  return createSpec('string', options);
+}
+
+function number(
+  options: RequiredOptions<number>
+): DeepLinkParamSpec<number, true>;
+function number(options?: OptionalOptions): DeepLinkParamSpec<number, false>;
+function number(options?: { required?: boolean; default?: number }) {
+  return createSpec('number', options);
+}
+
+function boolean(
+  options: RequiredOptions<boolean>
+): DeepLinkParamSpec<boolean, true>;
+function boolean(options?: OptionalOptions): DeepLinkParamSpec<boolean, false>;
+function boolean(options?: { required?: boolean; default?: boolean }) {
+  return createSpec('boolean', options);
+}
+
+function date(options: RequiredOptions<Date>): DeepLinkParamSpec<Date, true>;
+function date(options?: OptionalOptions): DeepLinkParamSpec<Date, false>;
+function date(options?: { required?: boolean; default?: Date }) {
+  return createSpec('date', options);
+}
+
+function oneOf<V extends string>(
+  values: readonly V[],
+  options: RequiredOptions<V>
+): DeepLinkParamSpec<V, true>;
+function oneOf<V extends string>(
+  values: readonly V[],
+  options?: OptionalOptions
+): DeepLinkParamSpec<V, false>;
+function oneOf(
+  values: readonly string[],
+  options?: { required?: boolean; default?: string }
+) {
+  return createSpec('enum', options, values);
+}
+
+/**
+ * Spec builders for deep link schemas
+ * @example
+ * ```typescript
+ * const productSchema = {
+ *   product_id: DeepLinkParam.number({ required: true }),
+ *   variant: DeepLinkParam.enum(['red', 'blue'] as const),
+ *   gift: DeepLinkParam.boolean({ default: false }),
+ * };
+ * ```
+ */
+export const DeepLinkParam = {
+  string,
+  number,
+  boolean,
+  date,
+  enum: oneOf,
+};
+
+const TRUE_VALUES = ['true', '1', 'yes'];
+const FALSE_VALUES = ['false', '0', 'no'];
+
+/**
+ * Coerce a raw parameter into the spec's type
+ * @returns The coerced value, or an issue describing why it failed
+ */
+function coerceValue(
+  key: string,
+  spec: DeepLinkParamSpec,
+  raw: string
+): { value: unknown } | { issue: DeepLinkValidationIssue } {
+  const invalid = (expected: string) => ({
+    issue: {
+      key,
+      code: 'invalid_type' as const,
+      message: `"${key}" must be ${expected}`,
+      received: raw,
+    },
+  });
+
+  switch (spec.type) {
+    case 'string':
+      return { value: raw };
+    case 'number': {
+      const value = Number(raw.trim());
+      return raw.trim() !== '' && Number.isFinite(value)
+        ? { value }
+        : invalid('a number');
+    }
+    case 'boolean': {
+      const normalized = raw.trim().toLowerCase();
+      if (TRUE_VALUES.includes(normalized)) {
+        return { value: true };
+      }
+      if (FALSE_VALUES.includes(normalized)) {
+        return { value: false };
+      }
+      return invalid('a boolean');
+    }
+    case 'date': {
+      // Accept ISO 8601 strings and epoch milliseconds
+      const trimmed = raw.trim();
+      const value = /^\d+$/.test(trimmed)
+        ? new Date(Number(trimmed))
+        : new Date(trimmed);
+      return isNaN(value.getTime()) ? invalid('a date') : { value };
+    }
+    case 'enum':
+      return spec.values && spec.values.includes(raw)
+        ? { value: raw }
+        : {
+            issue: {
+              key,
+              code: 'invalid_enum',
+              message: `"${key}" must be one of ${(spec.values || []).join(', ')}`,
+              received: raw,
+            },
+          };
+  }
+}
+
+/**
+ * Validate deep link parameters against a schema
+ *
+ * Parameters not declared in the schema are ignored. Array values (repeated
+ * keys) are validated using their last value.
+ */
+export function validateDeepLinkParameters<S extends DeepLinkSchema>(
+  schema: S,
+  data: { parameters: Record<string, any>; path?: string; url?: string }
+): DeepLinkValidationResult<InferDeepLinkParams<S>> {
+  const value: Record<string, unknown> = {};
+  const issues: DeepLinkValidationIssue[] = [];
+
+  Object.keys(schema).forEach((key) => {
+    const spec = schema[key];
+    let raw = data.parameters ? data.parameters[key] : undefined;
+    if (Array.isArray(raw)) {
+      raw = raw[raw.length - 1];
+    }
+
+    const isMissing =
+      raw === undefined ||
+      raw === null ||
+      (spec.type !== 'string' && String(raw).trim() === '');
+
+    if (isMissing) {
+      if (spec.default !== undefined) {
+        value[key] = spec.default;
+      } else if (spec.required) {
+        issues.push({
+          key,
+          code: 'missing',
+          message: `"${key}" is required`,
+        });
+      }
+      return;
+    }
+
+    const result = coerceValue(key, spec, String(raw));
+    if ('issue' in result) {
+      issues.push(result.issue);
+    } else {
+      value[key] = result.value;
+    }
+  });
+
+  if (issues.length > 0) {
+    return {
+      success: false,
+      error: new DeepLinkValidationError(issues, data.path, data.url),
+    };
+  }
+  return { success: true, value: value as InferDeepLinkParams<S> };
+}
@@ -0,0 +1,2274 @@
+import { NativeModules, NativeEventEmitter, Platform, Linking } from 'react-native';
+import { parseUrl, parseQueryString, getParameterValues } from './url';
+
+import {
+  validateDeepLinkParameters,
+  DeepLinkSchema,
+  DeepLinkValidationError,
+  InferDeepLinkParams,
+} from './schema';
+import { DeepLinkRouter, DeepLinkRouterOptions } from './router';
+import { getStoredItem, setStoredItem } from './storage';
+import { DeepLinkHistory, DeepLinkHistoryEntry, DeepLinkHistoryQuery } from './history';
+import { buildLongLink, LinkOptions } from './links';
+import { LinkVerifier, DeepLinkValidity, LinkVerificationOptions } from './verification';
+import { buildStandardEvent, StandardEventName, StandardEvents } from './events';
+import { validatePurchase, Purchase } from './purchase';
+import { SuperProperties, SuperPropertyOptions } from './superProperties';
+import {
+  AttributionContext,
+  AttributionContextOptions,
+  AttributionTracker,
+  DEFAULT_ATTRIBUTION_LOOKBACK_MS,
+  getAttributionEventParameters,
+} from './attribution';
+import { normalizeEvent, normalizeReservedEventParameters, normalizeSuperProperties, DEFAULT_EVENT_VALIDATION, EventValidationError, EventValidationIssue, EventValidationOptions } from './normalize';
+import {
+  buildTransactionParameters,
+  Refund,
+  StoreTransaction,
+  SubscriptionRenewal,
+  SubscriptionStart,
+  SUBSCRIPTION_EVENT_NAMES,
+  TransactionLedger,
+  TrialConversion,
+} from './subscriptions';
+import {
+  getInviteLinkOptions,
+  getReferrerEventParameters,
+  getReferrerFromDeepLink,
+  Referrer,
+  REFERRAL_CONVERSION_EVENT,
+  REFERRAL_INSTALL_EVENT,
+} from './referral';
+import {
+  createNavigationLinking,
+  createNavigationHandler,
+  LinkzlyLinkingConfig,
+  LinkzlyLinkingOptions,
+  LinkzlyNavigationHandler,
+  LinkzlyNavigationHandlerOptions,
+} from './navigation';
+
+const LINKING_ERROR =
+  `The package '@linkzly/react-native-sdk' doesn't seem to be linked. Make sure: \n\n` +
+  Platform.select({ ios: "- You have run 'pod install'\n", default: '' }) +
+  '- You rebuilt the app after installing the package\n' +
+  '- You are not using Expo Go\n';
+
+const LinkzlyReactNative = NativeModules.LinkzlyReactNative
+  ? NativeModules.LinkzlyReactNative
+  : new Proxy(
+    {},
+    {
+      get() {
+        throw new Error(LINKING_ERROR);
+      },
+    }
+  );
+
+const eventEmitter = new NativeEventEmitter(LinkzlyReactNative);
+
+// Type definitions
+export enum Environment {
+  PRODUCTION = 0,
+  STAGING = 1,
+  DEVELOPMENT = 2,
+}
+
+/**
+ * Where a deep link came from
+ * - "coldStart" - Linking.getInitialURL (URL that launched the app)
+ * - "warmStart" - Linking 'url' event (app already running)
+ * - "nativeIntent" - Android native emission from handleIntent/handleAppLink
+ * - "universalLink" - iOS native emission from handleUniversalLink
+ * - "deferred" - deferred deep link matched by trackInstall
+ */
+export type DeepLinkSource =
+  | 'coldStart'
+  | 'warmStart'
+  | 'nativeIntent'
+  | 'universalLink'
+  | 'deferred';
+
+/**
+ * Backend attribution state of a deep link
+ * - "pending" - attribution has not been received yet
+ * - "resolved" - attribution from the native SDK/backend was merged in
+ * - "timedOut" - attribution did not arrive within the wait window
+ * - "failed" - the native SDK could not handle the link; only the parsed URL is available
+ */
+export type AttributionStatus = 'pending' | 'resolved' | 'timedOut' | 'failed';
+
+export interface DeepLinkData {
+  url?: string;
+  scheme?: string;
+  host?: string;
+  path?: string;
+  fragment?: string;
+  parameters: Record<string, any>;
+  parameterValues?: Record<string, string[]>;
+  smartLinkId?: string;
+  clickId?: string;
+  attributionStatus?: AttributionStatus;
+  /** Where the link came from */
+  source?: DeepLinkSource;
+  /** When the SDK delivered the link (ms since epoch) */
+  receivedAt?: number;
+  /** Whether this is a deferred deep link matched at install time */
+  isDeferred?: boolean;
+  /** Signature, expiry and single-use check; set when linkVerification is configured */
+  validity?: DeepLinkValidity;
+}
+
+/**
+ * Attribution that arrived after a deep link was delivered to listeners
+ */
+export interface AttributionUpdate {
+  /** URL of the original deep link */
+  url: string;
+  /** Data deep link listeners were notified with */
+  original: DeepLinkData;
+  /** Original data merged with the late attribution */
+  updated: DeepLinkData;
+  smartLinkId?: string;
+  clickId?: string;
+  /** Parameters carried by the attribution event */
+  parameters: Record<string, any>;
+}
+
+/**
+ * Deep link matched at install time, persisted across app restarts
+ */
+export interface DeferredDeepLink {
+  data: DeepLinkData;
+  /** When trackInstall() returned the link (ms since epoch) */
+  receivedAt: number;
+  /** Whether markDeferredDeepLinkConsumed() has been called */
+  consumed: boolean;
+  /** When the link was marked consumed (ms since epoch) */
+  consumedAt?: number;
+}
+
+/**
+ * Options for LinkzlySDK.resolveLink()
+ */
+export interface ResolveLinkOptions {
+  /** How long to wait for the native module in ms (default: 5000) */
+  timeoutMs?: number;
+  /** Skip the cache and resolve again (default: false) */
+  skipCache?: boolean;
+}
+
+export interface UniversalLinkEvent {
+  url: string;
+  path?: string;
+  parameters: Record<string, any>;
+  attributionData?: Record<string, any>;
+}
+
+export interface EventParameters {
+  [key: string]: string | number | boolean | any;
+}
+
+export interface BatchEvent {
+  eventName: string;
+  parameters?: EventParameters;
+}
+
+/**
+ * Batching strategy options
+ * - "all" - Batch ALL events (install, open, purchase, custom)
+ * - "smart" - Smart batching: only custom events (DEFAULT)
+ * - "instant" - Send ALL events instantly (no batching)
+ * - "custom" - Same as "smart"
+ */
+export type BatchingStrategy = 'all' | 'smart' | 'instant' | 'custom';
+
+/**
+ * Debug batch configuration
+ */
+export interface DebugBatchConfig {
+  strategy?: string;
+  batchSize?: number;
+  flushInterval?: number;
+}
+
+/**
+ * Options for LinkzlySDK.configure()
+ */
+export interface ConfigureOptions {
+  /** Whether to automatically handle deep links (default: true) */
+  autoHandleDeepLinks?: boolean;
+  /** Whether to track an app open after configuring (default: true) */
+  autoTrackAppOpens?: boolean;
+  /** Number of received deep links kept in the on-device history; 0 disables it (default: 100) */
+  deepLinkHistoryLimit?: number;
+  /** How repeat deliveries of the same deep link are dropped; false disables deduplication */
+  deepLinkDedup?: DeepLinkDedupOptions | false;
+  /** Which incoming URLs the SDK handles; others are ignored (default: all URLs) */
+  linkFilter?: DeepLinkFilter;
+  /** Verify signed `exp`/`sig` links and track single-use links; sets DeepLinkData.validity */
+  linkVerification?: LinkVerificationOptions;
+  /** Event name and parameter checks; lenient mode drops invalid values with a warning, strict mode throws */
+  eventValidation?: EventValidationOptions;
+  /** Last-touch attribution from deep links, added to tracked events within the lookback window */
+  attributionContext?: AttributionContextOptions;
+  /** Base URL for links built by the SDK, e.g. "https://link.example.com" */
+  linkDomain?: string;
+}
+
+/**
+ * Which incoming URLs are Linkzly links
+ *
+ * A URL is handled when its host or scheme is listed (or no lists are given)
+ * and `shouldHandle` doesn't reject it. Other URLs, such as OAuth redirects or
+ * payment callbacks, are left to the app: they aren't logged, sent to the
+ * native SDK or delivered to deep link listeners.
+ */
+export interface DeepLinkFilter {
+  /** Hosts to handle, e.g. "link.example.com"; "*.example.com" also matches subdomains */
+  hosts?: string[];
+  /** Schemes to handle, e.g. "myapp" */
+  schemes?: string[];
+  /** Custom decision for URLs that pass the host/scheme lists */
+  shouldHandle?: (url: string) => boolean;
+}
+
+/**
+ * Deep link deduplication policy
+ *
+ * The same link can arrive more than once (Linking events plus native
+ * emissions, getInitialURL racing the 'url' event). Deliveries with the same
+ * key inside the window are dropped; after the window a repeat open is
+ * delivered again.
+ */
+export interface DeepLinkDedupOptions {
+  /** Window in ms during which repeats are dropped (default: 5000) */
+  windowMs?: number;
+  /** Key identifying "the same link" (default: the full URL) */
+  key?: (url: string) => string;
+}
+
+/**
+ * SDK state that can change at runtime
+ * - "configured" - configure() completed
+ * - "trackingEnabled" - setTrackingEnabled() was called
+ * - "advertisingTrackingEnabled" - setAdvertisingTrackingEnabled() was called
+ * - "visitorId" - resetVisitorID() generated a new visitor ID
+ * - "attStatus" - requestTrackingPermission() returned a new ATT status
+ */
+export type StateChange =
+  | 'configured'
+  | 'trackingEnabled'
+  | 'advertisingTrackingEnabled'
+  | 'visitorId'
+  | 'attStatus';
+
+/**
+ * Which already-delivered deep link a new deep link listener receives
+ * - "none" - only links delivered after subscribing
+ * - "last" - the most recent link, even if a listener already acknowledged it
+ * - "unconsumed" - the most recent link, unless a listener acknowledged it
+ */
+export type DeepLinkReplay = 'none' | 'last' | 'unconsumed';
+
+/**
+ * Options for addDeepLinkListener()
+ */
+export interface DeepLinkListenerOptions {
+  /** Replay behavior on subscribe (default: "unconsumed") */
+  replay?: DeepLinkReplay;
+}
+
+// Event listener types
+/**
+ * Deep link callback; call `ack()` once the link has been handled so it
+ * isn't replayed to listeners that subscribe later
+ */
+export type DeepLinkListener = (data: DeepLinkData, ack: () => void) => void;
+export type UniversalLinkListener = (data: UniversalLinkEvent) => void;
+export type StateChangeListener = (change: StateChange) => void;
+export type AttributionUpdateListener = (update: AttributionUpdate) => void;
+
+/**
+ * Options for a schema-validated deep link listener
+ */
+export interface TypedDeepLinkListenerOptions<S extends DeepLinkSchema> {
+  /** Deep link path this schema applies to (e.g. "/products") */
+  path: string;
+  /** Parameter schema built with DeepLinkParam */
+  schema: S;
+  /** Called with the validated, typed parameters */
+  onLink: (params: InferDeepLinkParams<S>, data: DeepLinkData) => void;
+  /** Called when a link for this path doesn't match the schema */
+  onError?: (error: DeepLinkValidationError, data: DeepLinkData) => void;
+}
+
+class LinkzlySDK {
+  // Constants
+  private static readonly BACKEND_ATTRIBUTION_TIMEOUT_MS = 2000;
+  private static readonly DEFAULT_DEDUP_WINDOW_MS = 5000;
+  private static readonly ATTRIBUTION_UPDATE_WINDOW_MS = 60 * 1000; // Window after delivery in which native events count as late attribution
+  private static readonly DEFERRED_DEEP_LINK_STORAGE_KEY = 'deferred_deep_link';
+  private static readonly REFERRER_STORAGE_KEY = 'referrer';
+  private static readonly INSTALL_TRACKED_AT_STORAGE_KEY = 'install_tracked_at';
+  private static readonly REFERRAL_INSTALL_WINDOW_MS = 24 * 60 * 60 * 1000;
+  private static readonly DEFAULT_DEEP_LINK_HISTORY_LIMIT = 100;
+  private static readonly DEFAULT_PENDING_DEEP_LINK_LIMIT = 10;
+  private static readonly DEFAULT_RESOLVE_LINK_TIMEOUT_MS = 5000;
+  private static readonly RESOLVE_LINK_CACHE_TTL_MS = 10 * 60 * 1000;
+  private static readonly RESOLVE_LINK_CACHE_SIZE = 50;
+
+  // Event listeners
+  private deepLinkListeners: Set<DeepLinkListener> = new Set();
+  private universalLinkListeners: Set<UniversalLinkListener> = new Set();
+  private stateChangeListeners: Set<StateChangeListener> = new Set();
+  private attributionUpdateListeners: Set<AttributionUpdateListener> = new Set();
+  private deepLinkSubscription: any = null;
+  private universalLinkSubscription: any = null;
+  private linkingSubscription: any = null;
+
+  // Configuration state
+  private isAutoHandlingEnabled: boolean = true;
+  private isConfigured: boolean = false;
+  private hasRequestedInitialUrl: boolean = false;
+  private configuring: Promise<void> | null = null; // In-flight configure()
+
+  // Deep link processing state
+  private pendingUrls: Array<{ url: string; source: DeepLinkSource }> = []; // URLs received before configure(), oldest first
+  private pendingUrlLimit: number = LinkzlySDK.DEFAULT_PENDING_DEEP_LINK_LIMIT;
+  private linkFilter: DeepLinkFilter | null = null;
+  private linkVerifier: LinkVerifier | null = null;
+  private linkDomain: string | null = null;
+  private processedUrls: Map<string, number> = new Map(); // Dedup key -> timestamp
+  private deepLinkDedup: Required<DeepLinkDedupOptions> | null = {
+    windowMs: LinkzlySDK.DEFAULT_DEDUP_WINDOW_MS,
+    key: (url) => url,
+  };
+  private lastDeepLinkData: DeepLinkData | null = null;
+  private lastDeepLinkConsumed: boolean = false;
+  private pendingAttributionUrls: Set<string> = new Set(); // URLs waiting for backend attribution
+  private deepLinkHistory = new DeepLinkHistory(LinkzlySDK.DEFAULT_DEEP_LINK_HISTORY_LIMIT);
+  private deliveredDeepLinks: Map<string, { data: DeepLinkData; timestamp: number }> = new Map(); // URL -> last delivered data
+  private resolvedLinks: Map<string, { data: DeepLinkData; timestamp: number }> = new Map(); // Short URL -> resolved destination
+  private resolvingLinks: Map<string, Promise<DeepLinkData>> = new Map(); // Short URL -> in-flight resolution
+  private transactionLedger = new TransactionLedger();
+  private eventValidation: Required<EventValidationOptions> = DEFAULT_EVENT_VALIDATION;
+  private superProperties = new SuperProperties();
+  private attributionTracker = new AttributionTracker(DEFAULT_ATTRIBUTION_LOOKBACK_MS);
+  private addAttributionToEvents: boolean = true;
+
+  constructor() {
+    // Capture links from app launch on; until configure() completes they are
+    // queued and replayed in arrival order
+    this.setupAutomaticDeepLinking();
+  }
+
+  /**
+   * Configure the Linkzly SDK
+   * @param sdkKey Your Linkzly SDK key
+   * @param environment Environment to use (production, staging, development)
+   * @param options Configuration options
+   * @param options.autoHandleDeepLinks Whether to automatically handle deep links (default: true)
+   * @param options.autoTrackAppOpens Whether to track an app open after configuring (default: true)
+   * @param options.deepLinkDedup Deep link deduplication policy, or false to disable it (default: 5000ms window keyed by URL)
+   * @param options.linkFilter Hosts, schemes and predicate selecting which URLs the SDK handles (default: all URLs)
+   * @param options.linkVerification HMAC key for verifying signed links (default: no verification)
+   * @param options.eventValidation Event validation mode and limits (default: lenient, 100 parameters, 100-character names and keys)
+   * @param options.attributionContext Attribution lookback window and whether events carry it (default: 24 hours, added to events)
+   * @param options.linkDomain Base URL for invite links, e.g. "https://link.example.com" (default: none)
+   *
+   * Calls made while configuration is in progress (e.g. a remounted
+   * LinkzlyProvider) wait for it instead of configuring again; their
+   * arguments are ignored.
+   */
+  configure(
+    sdkKey: string,
+    environment: Environment = Environment.PRODUCTION,
+    options?: ConfigureOptions
+  ): Promise<void> {
+    if (this.configuring) {
+      console.log('[LinkzlySDK] configure() already in progress, waiting for it');
+      return this.configuring;
+    }
+
+    this.configuring = this.performConfigure(sdkKey, environment, options).finally(() => {
+      this.configuring = null;
+    });
+    return this.configuring;
+  }
+
+  /**
+   * Configure the native SDK and apply the options
+   * @private
+   */
+  private async performConfigure(
+    sdkKey: string,
+    environment: Environment,
+    options?: ConfigureOptions
+  ): Promise<void> {
+    await LinkzlyReactNative.configure(sdkKey, environment);
+    this.isConfigured = true;
+    this.notifyStateChange('configured');
+
+    if (options?.deepLinkHistoryLimit !== undefined) {
+      this.deepLinkHistory.setMaxEntries(options.deepLinkHistoryLimit);
+    }
+
+    if (options?.linkFilter !== undefined) {
+      this.linkFilter = options.linkFilter;
+    }
+
+    if (options?.linkVerification) {
+      this.linkVerifier = new LinkVerifier(options.linkVerification);
+    }
+
+    if (options?.eventValidation) {
+      this.eventValidation = { ...DEFAULT_EVENT_VALIDATION, ...options.eventValidation };
+    }
+
+    if (options?.attributionContext?.lookbackWindowMs !== undefined) {
+      this.attributionTracker.setLookbackWindow(options.attributionContext.lookbackWindowMs);
+    }
+    if (options?.attributionContext?.addToEvents !== undefined) {
+      this.addAttributionToEvents = options.attributionContext.addToEvents;
+    }
+
+    if (options?.linkDomain !== undefined) {
+      this.linkDomain = options.linkDomain;
+    }
+
+    if (options?.deepLinkDedup !== undefined) {
+      this.deepLinkDedup = options.deepLinkDedup === false
+        ? null
+        : {
+          windowMs: options.deepLinkDedup.windowMs ?? LinkzlySDK.DEFAULT_DEDUP_WINDOW_MS,
+          key: options.deepLinkDedup.key ?? ((url) => url),
+        };
+    }
+
+    // Handle auto deep linking configuration (listeners are already set up
+    // unless auto handling was turned off)
+    if (options?.autoHandleDeepLinks !== undefined) {
+      this.setAutoHandleDeepLinks(options.autoHandleDeepLinks);
+    }
+
+    // Process URLs that arrived before configuration, in arrival order, in
+    // the background: each may wait for backend attribution
+    const pendingUrls = this.pendingUrls;
+    this.pendingUrls = [];
+    let replay: Promise<void> = Promise.resolve();
+    pendingUrls.forEach(({ url, source }) => {
+      replay = replay
+        .then(() => this.processDeepLink(url, source))
+        .catch((error) => {
+          console.error('[LinkzlySDK] Error processing queued deep link:', error);
+        });
+    });
+
+    // Auto-track app open if enabled (default: true)
+    const autoTrackAppOpens = options?.autoTrackAppOpens !== false;
+    if (autoTrackAppOpens) {
+      console.log('[LinkzlySDK] Auto-tracking app open');
+      // Track open in background to not block configuration
+      this.trackOpen().catch((error) => {
+        console.error('[LinkzlySDK] Error auto-tracking open:', error);
+      });
+    }
+  }
+
+  /**
+   * Handle a universal link (iOS) or app link (Android)
+   * @param url The URL string to handle
+   */
+  async handleUniversalLink(url: string): Promise<DeepLinkData | null> {
+    if (Platform.OS === 'ios') {
+      await LinkzlyReactNative.handleUniversalLink(url);
+      return null;
+    } else {
+      return await LinkzlyReactNative.handleAppLink(url);
+    }
+  }
+
+  /**
+   * Track an install event
+   * A matched deferred deep link is also persisted for getDeferredDeepLink(),
+   * and an invite link attributes the install to its inviter
+   * @returns Deep link data if available
+   */
+  async trackInstall(): Promise<DeepLinkData | null> {
+    const nativeData: DeepLinkData | null = await LinkzlyReactNative.trackInstall();
+    await setStoredItem(LinkzlySDK.INSTALL_TRACKED_AT_STORAGE_KEY, Date.now()).catch((error) => {
+      console.error('[LinkzlySDK] Error storing install time:', error);
+    });
+    if (!nativeData) {
+      return null;
+    }
+
+    const data = await this.withValidity(this.withSourceMetadata(nativeData, 'deferred'));
+    const deferred: DeferredDeepLink = {
+      data,
+      receivedAt: data.receivedAt!,
+      consumed: false,
+    };
+    await setStoredItem(LinkzlySDK.DEFERRED_DEEP_LINK_STORAGE_KEY, deferred).catch((error) => {
+      console.error('[LinkzlySDK] Error storing deferred deep link:', error);
+    });
+    this.recordDeepLinkHistory(data);
+    this.recordAttributionContext(data);
+    await this.attributeReferral(data);
+    return data;
+  }
+
+  /**
+   * Get the deep link matched at install time
+   * Persisted across restarts, so it can be read after onboarding finishes
+   * @returns Deferred deep link with its consumed flag, or null if none
+   */
+  async getDeferredDeepLink(): Promise<DeferredDeepLink | null> {
+    return await getStoredItem<DeferredDeepLink>(LinkzlySDK.DEFERRED_DEEP_LINK_STORAGE_KEY);
+  }
+
+  /**
+   * Mark the deferred deep link as consumed (e.g. after routing to it)
+   */
+  async markDeferredDeepLinkConsumed(): Promise<void> {
+    const deferred = await this.getDeferredDeepLink();
+    if (!deferred || deferred.consumed) {
+      return;
+    }
+    await setStoredItem<DeferredDeepLink>(LinkzlySDK.DEFERRED_DEEP_LINK_STORAGE_KEY, {
+      ...deferred,
+      consumed: true,
+      consumedAt: Date.now(),
+    });
+  }
+
+  /**
+   * Expand a Linkzly short link or smart link into its destination
+   * The native module follows the link's HTTP redirects; the final URL is
+   * parsed like an incoming deep link. Does not notify deep link listeners.
+   * Results are cached for 10 minutes and concurrent calls for the same URL
+   * share one native request.
+   * @param url Short link or smart link URL
+   * @param options Timeout and cache options
+   * @returns Destination path, parameters and attribution IDs
+   */
+  async resolveLink(url: string, options?: ResolveLinkOptions): Promise<DeepLinkData> {
+    if (!LinkzlyReactNative.resolveLink) {
+      throw new Error(
+        'resolveLink is not available. Make sure you have:\n' +
+        '1. Run "pod install" in the ios directory\n' +
+        '2. Rebuilt the app after adding native methods\n' +
+        '3. The native module is properly linked'
+      );
+    }
+
+    const cached = this.resolvedLinks.get(url);
+    if (cached && !options?.skipCache && Date.now() - cached.timestamp < LinkzlySDK.RESOLVE_LINK_CACHE_TTL_MS) {
+      return cached.data;
+    }
+
+    const inFlight = this.resolvingLinks.get(url);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const timeoutMs = options?.timeoutMs ?? LinkzlySDK.DEFAULT_RESOLVE_LINK_TIMEOUT_MS;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`resolveLink timed out after ${timeoutMs}ms: ${url}`)), timeoutMs);
+    });
+
+    const resolution = Promise.race([LinkzlyReactNative.resolveLink(url) as Promise<DeepLinkData | null>, timeout])
+      .then((nativeData) => {
+        if (!nativeData) {
+          throw new Error(`Link could not be resolved: ${url}`);
+        }
+
+        // Parse the destination URL so path and parameters are filled in even
+        // when the native module only returns the URL
+        const parsed: DeepLinkData = nativeData.url
+          ? this.parseUrlToDeepLinkData(nativeData.url)
+          : { parameters: {} };
+        const data: DeepLinkData = {
+          ...this.mergeDeepLinkData(parsed, nativeData),
+          attributionStatus: 'resolved',
+        };
+
+        this.resolvedLinks.delete(url);
+        this.resolvedLinks.set(url, { data, timestamp: Date.now() });
+        // Evict the oldest entry (Map keeps insertion order)
+        if (this.resolvedLinks.size > LinkzlySDK.RESOLVE_LINK_CACHE_SIZE) {
+          const oldest = this.resolvedLinks.keys().next().value;
+          if (oldest !== undefined) {
+            this.resolvedLinks.delete(oldest);
+          }
+        }
+        return data;
+      })
+      .finally(() => {
+        clearTimeout(timer);
+        this.resolvingLinks.delete(url);
+      });
+
+    this.resolvingLinks.set(url, resolution);
+    return resolution;
+  }
+
+  /**
+   * Track an app open event
+   * An invite link opened within 24 hours of install attributes the install
+   * to its inviter
+   * @returns Deep link data if available
+   */
+  async trackOpen(): Promise<DeepLinkData | null> {
+    const data: DeepLinkData | null = await LinkzlyReactNative.trackOpen();
+    if (data && getReferrerFromDeepLink(data)) {
+      const installTrackedAt = await getStoredItem<number>(LinkzlySDK.INSTALL_TRACKED_AT_STORAGE_KEY);
+      if (installTrackedAt !== null && Date.now() - installTrackedAt < LinkzlySDK.REFERRAL_INSTALL_WINDOW_MS) {
+        await this.attributeReferral(data);
+      }
+    }
+    return data;
+  }
+
+  /**
+   * Create an invite link for the referral program
+   * The inviter ID and reward are delivered as `inviter_id` and `reward`
+   * parameters, and installs from the link are attributed to the inviter.
+   * @param inviterId ID of the inviting user
+   * @param reward Optional reward attached to the invite
+   * @param options Overrides for path (default: "/invite"), campaign (default: "referral") and other link options
+   * @returns Long link on the configured link domain
+   * @throws Error if configure() wasn't called with a linkDomain
+   */
+  createInviteLink(
+    inviterId: string,
+    reward?: string,
+    options?: Partial<LinkOptions>
+  ): string {
+    const linkOptions = getInviteLinkOptions(inviterId, reward, options);
+    if (!this.linkDomain) {
+      throw new Error('createInviteLink requires the linkDomain configure() option');
+    }
+    return buildLongLink(this.linkDomain, linkOptions);
+  }
+
+  /**
+   * Get the inviter this install was attributed to
+   * Set once by trackInstall() or trackOpen(); later invite links don't replace it
+   * @returns The referrer, or null if the install didn't come from an invite link
+   */
+  async getReferrer(): Promise<Referrer | null> {
+    return await getStoredItem<Referrer>(LinkzlySDK.REFERRER_STORAGE_KEY);
+  }
+
+  /**
+   * Track a referral conversion (e.g. the invited user's first purchase),
+   * attributed to the referrer
+   * Skipped with a warning when the install has no referrer.
+   * @param parameters Optional event parameters
+   */
+  async trackReferralConversion(parameters?: EventParameters): Promise<void> {
+    const referrer = await this.getReferrer();
+    if (!referrer) {
+      console.warn('[LinkzlySDK] No referrer for this install, skipping referral conversion');
+      return;
+    }
+    await this.trackEvent(REFERRAL_CONVERSION_EVENT, {
+      ...parameters,
+      ...getReferrerEventParameters(referrer),
+    });
+  }
+
+  /**
+   * Track a custom event
+   * Super properties and the attribution context are included; values
+   * passed here take precedence.
+   * Dates are sent as ISO 8601 strings. Values the bridge can't carry
+   * (undefined, NaN, functions, class instances) are dropped with a warning,
+   * or throw in strict mode; see ConfigureOptions.eventValidation.
+   * @param eventName Name of the event
+   * @param parameters Optional event parameters
+   * @throws EventValidationError in strict mode if the event is invalid
+   */
+  async trackEvent(
+    eventName: string,
+    parameters?: EventParameters
+  ): Promise<void> {
+    const context = await this.getEventContext();
+    const event = this.prepareEvent(eventName, parameters, context);
+    if (!event) {
+      return;
+    }
+    await LinkzlyReactNative.trackEvent(event.eventName, event.parameters || {});
+  }
+
+  /**
+   * Track a standard event from the typed catalog
+   * Mapped to the canonical event name and snake_case parameter keys, e.g.
+   * `AddToCart` with `contentId` is tracked as `add_to_cart` with `content_id`.
+   * `Purchase` is tracked through trackPurchase().
+   * @param name Standard event name
+   * @param parameters Typed event fields
+   * @param extra Additional custom parameters
+   */
+  async trackStandardEvent<E extends StandardEventName>(
+    name: E,
+    parameters: StandardEvents[E],
+    extra?: EventParameters
+  ): Promise<void> {
+    const event = buildStandardEvent(name, parameters, extra);
+    if (name === 'Purchase') {
+      const { transaction_id, value, currency, ...rest } = event.parameters || {};
+      await this.trackPurchase({ currency, amount: value, transactionId: transaction_id, parameters: rest });
+      return;
+    }
+    await this.trackEvent(event.eventName, event.parameters);
+  }
+
+  /**
+   * Track a purchase event
+   * Super properties and the attribution context are included; values
+   * passed here take precedence.
+   * The purchase is validated before anything is sent: the currency must be
+   * an ISO 4217 code and amounts non-negative numbers. Revenue is sent in
+   * decimals (`revenue`, `amount`) and minor units (`revenue_minor`).
+   * Untyped parameters without a `currency` or `items` key are still sent
+   * without purchase validation; that form is deprecated.
+   * Either way, parameters are then normalized like trackEvent() parameters.
+   * @param parameters Currency, line items or amount, and tax/shipping/discount
+   * @throws PurchaseValidationError with every issue found
+   * @throws EventValidationError in strict mode if a parameter is invalid
+   */
+  async trackPurchase(
+    parameters?: Purchase | EventParameters
+  ): Promise<void> {
+    let purchase = parameters;
+    if (parameters && ('currency' in parameters || 'items' in parameters)) {
+      const result = validatePurchase(parameters as Purchase);
+      if (!result.success) {
+        throw result.error;
+      }
+      purchase = result.value;
+    }
+    const context = await this.getEventContext();
+    const normalized = normalizeReservedEventParameters('purchase', purchase, this.eventValidation, context);
+    this.reportValidationIssues(normalized.issues);
+    await LinkzlyReactNative.trackPurchase(normalized.parameters);
+  }
+
+  /**
+   * Track the start of a subscription
+   * Skipped if this transaction was already tracked on this device.
+   * @param subscription Store product and transaction, price and trial details
+   * @returns false if the transaction was already tracked
+   * @throws PurchaseValidationError if IDs are missing or price/currency are invalid
+   */
+  async trackSubscriptionStart(subscription: SubscriptionStart): Promise<boolean> {
+    return await this.trackStoreTransaction(SUBSCRIPTION_EVENT_NAMES.subscriptionStart, subscription, false);
+  }
+
+  /**
+   * Track a subscription renewal
+   * Skipped if this transaction was already tracked on this device.
+   * @param renewal Store product, renewal transaction and original transaction IDs
+   * @returns false if the transaction was already tracked
+   * @throws PurchaseValidationError if IDs are missing or price/currency are invalid
+   */
+  async trackRenewal(renewal: SubscriptionRenewal): Promise<boolean> {
+    return await this.trackStoreTransaction(SUBSCRIPTION_EVENT_NAMES.renewal, renewal, true);
+  }
+
+  /**
+   * Track a free trial converting to a paid subscription
+   * Skipped if this transaction was already tracked on this device.
+   * @param conversion Store product, first paid transaction and original transaction IDs
+   * @returns false if the transaction was already tracked
+   * @throws PurchaseValidationError if IDs are missing or price/currency are invalid
+   */
+  async trackTrialConversion(conversion: TrialConversion): Promise<boolean> {
+    return await this.trackStoreTransaction(SUBSCRIPTION_EVENT_NAMES.trialConversion, conversion, true);
+  }
+
+  /**
+   * Track a refund of a store transaction
+   * Skipped if a refund of this transaction was already tracked on this device.
+   * The refunded price is sent as negative `revenue`, `revenue_minor` and
+   * `amount`, so revenue summed across events is net of refunds.
+   * @param refund Refunded transaction, refunded amount (positive) and reason
+   * @returns false if the refund was already tracked
+   * @throws PurchaseValidationError if IDs are missing or price/currency are invalid
+   */
+  async trackRefund(refund: Refund): Promise<boolean> {
+    return await this.trackStoreTransaction(
+      SUBSCRIPTION_EVENT_NAMES.refund,
+      refund,
+      false,
+      refund?.reason !== undefined ? { reason: refund.reason } : {},
+      true
+    );
+  }
+
+  /**
+   * Track multiple events in a batch
+   * Each event is validated like trackEvent(); in lenient mode invalid events
+   * are left out of the batch, in strict mode nothing is sent.
+   * @param events Array of events to track
+   * @throws EventValidationError in strict mode if any event is invalid
+   */
+  async trackEventBatch(events: BatchEvent[]): Promise<boolean> {
+    const context = await this.getEventContext();
+    const prepared = events
+      .map((event) => this.prepareEvent(event.eventName, event.parameters, context))
+      .filter((event): event is BatchEvent => event !== null);
+    const result = await LinkzlyReactNative.trackEventBatch(prepared);
+    return result.success;
+  }
+
+  /**
+   * Get the last-touch attribution context
+   * Set from the most recent deep link with a smart link ID, click ID or UTM
+   * parameters, and added to tracked events as `smart_link_id`, `click_id`
+   * and `utm_*` until the lookback window passes.
+   * @returns The context, or null if there is none or it has expired
+   */
+  async getAttributionContext(): Promise<AttributionContext | null> {
+    return await this.attributionTracker.get();
+  }
+
+  /**
+   * Forget the attribution context, e.g. when the user logs out
+   */
+  async clearAttributionContext(): Promise<void> {
+    await this.attributionTracker.clear();
+  }
+
+  /**
+   * Register properties sent with every event
+   * Included in trackEvent(), trackEventBatch() and trackPurchase() calls,
+   * and in events the SDK tracks itself (referrals, subscriptions). Values
+   * passed to a tracking call take precedence.
+   * Values are validated like event parameters when they are registered.
+   * @param properties Properties to set; existing values are replaced
+   * @param options.persist Keep the properties across app launches (default: false)
+   * @throws EventValidationError in strict mode if a value is invalid
+   */
+  async registerSuperProperties(properties: EventParameters, options?: SuperPropertyOptions): Promise<void> {
+    await this.superProperties.register(this.prepareSuperProperties(properties), options);
+  }
+
+  /**
+   * Register super properties that aren't registered yet
+   * Useful for first-touch values, e.g. the first app version installed.
+   * @param properties Properties to set; existing values are kept
+   * @param options.persist Keep the properties across app launches (default: false)
+   * @throws EventValidationError in strict mode if a value is invalid
+   */
+  async registerSuperPropertiesOnce(properties: EventParameters, options?: SuperPropertyOptions): Promise<void> {
+    await this.superProperties.registerOnce(this.prepareSuperProperties(properties), options);
+  }
+
+  /**
+   * Remove a super property, whether persisted or not
+   * @param name Property name
+   */
+  async unregisterSuperProperty(name: string): Promise<void> {
+    await this.superProperties.unregister(name);
+  }
+
+  /**
+   * Get the registered super properties
+   */
+  async getSuperProperties(): Promise<EventParameters> {
+    return await this.superProperties.get();
+  }
+
+  /**
+   * Remove all super properties, including persisted ones
+   */
+  async clearSuperProperties(): Promise<void> {
+    await this.superProperties.clear();
+  }
+
+  /**
+   * Parameters added to every event: super properties, then the attribution
+   * context
+   * @private
+   */
+  private async getEventContext(): Promise<EventParameters> {
+    const superProperties = await this.superProperties.get();
+    if (!this.addAttributionToEvents) {
+      return superProperties;
+    }
+    const attribution = await this.attributionTracker.get();
+    return attribution
+      ? { ...superProperties, ...getAttributionEventParameters(attribution) }
+      : superProperties;
+  }
+
+  /**
+   * Record a delivered deep link as the attribution context
+   * @private
+   */
+  private recordAttributionContext(data: DeepLinkData): void {
+    this.attributionTracker.record(data).catch((error) => {
+      console.error('[LinkzlySDK] Error recording attribution context:', error);
+    });
+  }
+
+  /**
+   * Validate and normalize an event before it crosses the bridge
+   * The event context is added after the event's own parameters are limited.
+   * @param context Event context from getEventContext()
+   * @returns The event to send, or null if it was dropped
+   * @throws EventValidationError in strict mode
+   * @private
+   */
+  private prepareEvent(
+    eventName: string,
+    parameters?: EventParameters,
+    context?: EventParameters
+  ): BatchEvent | null {
+    const { event, issues } = normalizeEvent(eventName, parameters, this.eventValidation, context);
+    this.reportValidationIssues(issues);
+    if (issues.length > 0 && !event) {
+      console.warn(`[LinkzlySDK] Event "${eventName}" was not tracked`);
+    }
+    return event;
+  }
+
+  /**
+   * Validate and normalize super properties before they are registered, so
+   * an invalid value can't fail every later event
+   * @throws EventValidationError in strict mode
+   * @private
+   */
+  private prepareSuperProperties(properties: EventParameters): EventParameters {
+    const normalized = normalizeSuperProperties(properties, this.eventValidation);
+    this.reportValidationIssues(normalized.issues);
+    return normalized.properties;
+  }
+
+  /**
+   * Throw validation issues in strict mode, otherwise log them
+   * @private
+   */
+  private reportValidationIssues(issues: EventValidationIssue[]): void {
+    if (issues.length === 0) {
+      return;
+    }
+    if (this.eventValidation.mode === 'strict') {
+      throw new EventValidationError(issues);
+    }
+    issues.forEach((issue) => console.warn(`[LinkzlySDK] ${issue.message}`));
+  }
+
+  /**
+   * Manually flush pending events to the server
+   *
+   * This will send all queued events immediately, useful for:
+   * - Testing and debugging
+   * - Before critical app transitions
+   * - When you want to ensure events are sent before app termination
+   *
+   * @returns Promise resolving to success status
+   */
+  async flushEvents(): Promise<boolean> {
+    const result = await LinkzlyReactNative.flushEvents();
+    return result.success;
+  }
+
+  /**
+   * Get the count of pending events in the queue
+   *
+   * Useful for monitoring and debugging batched event processing
+   *
+   * @returns Number of events waiting to be sent
+   */
+  async getPendingEventCount(): Promise<number> {
+    return await LinkzlyReactNative.getPendingEventCount();
+  }
+
+  /**
+   * Set the user ID for attribution
+   * @param userID User identifier
+   */
+  async setUserID(userID: string): Promise<void> {
+    await LinkzlyReactNative.setUserID(userID);
+  }
+
+  /**
+   * Get the current user ID
+   * @returns Current user ID or null
+   */
+  async getUserID(): Promise<string | null> {
+    return await LinkzlyReactNative.getUserID();
+  }
+
+  /**
+   * Enable or disable tracking
+   * @param enabled Whether tracking should be enabled
+   */
+  async setTrackingEnabled(enabled: boolean): Promise<void> {
+    await LinkzlyReactNative.setTrackingEnabled(enabled);
+    this.notifyStateChange('trackingEnabled');
+  }
+
+  /**
+   * Check if tracking is enabled
+   * @returns Whether tracking is enabled
+   */
+  async isTrackingEnabled(): Promise<boolean> {
+    return await LinkzlyReactNative.isTrackingEnabled();
+  }
+
+  /**
+   * Get the visitor ID
+   * @returns Visitor ID
+   */
+  async getVisitorID(): Promise<string> {
+    return await LinkzlyReactNative.getVisitorID();
+  }
+
+  /**
+   * Reset the visitor ID (generates a new one)
+   */
+  async resetVisitorID(): Promise<void> {
+    await LinkzlyReactNative.resetVisitorID();
+    this.notifyStateChange('visitorId');
+  }
+
+  /**
+   * Update SKAdNetwork conversion value (iOS 14+ only)
+   * @param value Conversion value (0-63)
+   */
+  async updateConversionValue(value: number): Promise<boolean> {
+    if (Platform.OS !== 'ios') {
+      console.warn('SKAdNetwork is iOS only');
+      return false;
+    }
+    const result = await LinkzlyReactNative.updateConversionValue(value);
+    return result.success;
+  }
+
+  /**
+   * Request App Tracking Transparency permission (iOS 14.5+ only)
+   * @returns ATT status: 'authorized', 'denied', 'restricted', or 'notDetermined'
+   */
+  async requestTrackingPermission(): Promise<string> {
+    if (Platform.OS !== 'ios') {
+      console.warn('App Tracking Transparency is iOS only');
+      return 'unsupported';
+    }
+    const status = await LinkzlyReactNative.requestTrackingPermission();
+    this.notifyStateChange('attStatus');
+    return status;
+  }
+
+  /**
+   * Enable or disable advertising identifier tracking (IDFA/GAID)
+   * This is separate from general analytics tracking
+   * @param enabled Whether to collect advertising identifiers
+   */
+  async setAdvertisingTrackingEnabled(enabled: boolean): Promise<void> {
+    if (!LinkzlyReactNative.setAdvertisingTrackingEnabled) {
+      throw new Error(
+        'setAdvertisingTrackingEnabled is not available. Make sure you have:\n' +
+        '1. Run "pod install" in the ios directory\n' +
+        '2. Rebuilt the app after adding native methods\n' +
+        '3. The native module is properly linked'
+      );
+    }
+    await LinkzlyReactNative.setAdvertisingTrackingEnabled(enabled);
+    this.notifyStateChange('advertisingTrackingEnabled');
+  }
+
+  /**
+   * Check if advertising identifier tracking is enabled
+   * @returns Whether advertising tracking is enabled
+   */
+  async isAdvertisingTrackingEnabled(): Promise<boolean> {
+    return await LinkzlyReactNative.isAdvertisingTrackingEnabled();
+  }
+
+  /**
+   * Manually start a new session
+   * Useful for manual session management or non-standard app lifecycles
+   */
+  async startSession(): Promise<void> {
+    await LinkzlyReactNative.startSession();
+  }
+
+  /**
+   * Manually end the current session
+   * Useful for manual session management or non-standard app lifecycles
+   */
+  async endSession(): Promise<void> {
+    await LinkzlyReactNative.endSession();
+  }
+
+  /**
+   * Get the current IDFA value (iOS only)
+   * Returns null if ATT not authorized, advertising tracking disabled, or on Android
+   * @returns IDFA string or null
+   */
+  async getIDFA(): Promise<string | null> {
+    if (Platform.OS !== 'ios') {
+      console.warn('IDFA is iOS only');
+      return null;
+    }
+    if (!LinkzlyReactNative.getIDFA) {
+      throw new Error(
+        'getIDFA is not available. Make sure you have:\n' +
+        '1. Run "pod install" in the ios directory\n' +
+        '2. Rebuilt the app after adding native methods\n' +
+        '3. The native module is properly linked'
+      );
+    }
+    const result = await LinkzlyReactNative.getIDFA();
+    return result === null || result === undefined ? null : String(result);
+  }
+
+  /**
+   * Get the current ATT authorization status (iOS only)
+   * Returns null if iOS < 14.5 or on Android
+   * @returns ATT status: 'authorized', 'denied', 'restricted', 'notDetermined', or null
+   */
+  async getATTStatus(): Promise<string | null> {
+    if (Platform.OS !== 'ios') {
+      console.warn('ATT is iOS only');
+      return null;
+    }
+    if (!LinkzlyReactNative.getATTStatus) {
+      throw new Error(
+        'getATTStatus is not available. Make sure you have:\n' +
+        '1. Run "pod install" in the ios directory\n' +
+        '2. Rebuilt the app after adding native methods\n' +
+        '3. The native module is properly linked'
+      );
+    }
+    const result = await LinkzlyReactNative.getATTStatus();
+    return result === null || result === undefined ? null : String(result);
+  }
+
+  /**
+   * Add a listener for deep link events
+   * @param listener Callback function to handle deep link data
+   * @param options Replay behavior for links delivered before subscribing
+   * @returns Function to remove the listener
+   */
+  addDeepLinkListener(listener: DeepLinkListener, options?: DeepLinkListenerOptions): () => void {
+    this.deepLinkListeners.add(listener);
+
+    // Setup native event listener if not already done
+    this.ensureDeepLinkSubscription();
+
+    // Replay cached deep link data according to the subscription's replay mode
+    const replay = options?.replay ?? 'unconsumed';
+    const data = this.lastDeepLinkData;
+    if (data && (replay === 'last' || (replay === 'unconsumed' && !this.lastDeepLinkConsumed))) {
+      console.log('[LinkzlySDK] Calling new listener with cached deep link data');
+      try {
+        listener(data, () => this.ackDeepLink(data));
+      } catch (error) {
+        console.error('[LinkzlySDK] Error in deep link listener:', error);
+      }
+    }
+
+    // Return unsubscribe function
+    return () => {
+      this.deepLinkListeners.delete(listener);
+      this.releaseDeepLinkSubscription();
+    };
+  }
+
+  /**
+   * Mark a delivered deep link as consumed, so listeners subscribing later
+   * with the default "unconsumed" replay mode don't receive it again
+   * Same as calling the `ack` passed to the deep link listener.
+   * @param data The delivered link (default: the most recent link)
+   */
+  ackDeepLink(data?: DeepLinkData): void {
+    const last = this.lastDeepLinkData;
+    // Late attribution replaces the cached object, so match on URL and delivery time
+    if (last && (!data || data === last || (data.url === last.url && data.receivedAt === last.receivedAt))) {
+      this.lastDeepLinkConsumed = true;
+    }
+  }
+
+  /**
+   * Add a listener for attribution that arrives after a deep link was
+   * already delivered to deep link listeners
+   *
+   * Deep link listeners are notified once per link; late campaign, click or
+   * smart link data is delivered here instead, keyed to the original URL.
+   * @param listener Callback function to handle the attribution update
+   * @returns Function to remove the listener
+   */
+  addAttributionUpdateListener(listener: AttributionUpdateListener): () => void {
+    this.attributionUpdateListeners.add(listener);
+    this.ensureDeepLinkSubscription();
+
+    return () => {
+      this.attributionUpdateListeners.delete(listener);
+      this.releaseDeepLinkSubscription();
+    };
+  }
+
+  /**
+   * Add a deep link listener for a single path, validated against a schema
+   * Links for other paths are ignored
+   * @param options Path, schema and callbacks
+   * @returns Function to remove the listener
+   */
+  addTypedDeepLinkListener<S extends DeepLinkSchema>(
+    options: TypedDeepLinkListenerOptions<S>
+  ): () => void {
+    const normalizePath = (path?: string) => (path || '/').replace(/\/+$/, '') || '/';
+    const expectedPath = normalizePath(options.path);
+
+    return this.addDeepLinkListener((data: DeepLinkData) => {
+      if (normalizePath(data.path) !== expectedPath) {
+        return;
+      }
+
+      const result = validateDeepLinkParameters(options.schema, data);
+      if (result.success) {
+        options.onLink(result.value, data);
+      } else if (options.onError) {
+        options.onError(result.error, data);
+      } else {
+        console.warn('[LinkzlySDK] Deep link failed schema validation:', result.error.message);
+      }
+    });
+  }
+
+  /**
+   * Create a declarative deep link router backed by addDeepLinkListener
+   * Call `start()` on the returned router to begin dispatching
+   * @param options Routes and not-found callback
+   * @returns Router instance
+   */
+  createDeepLinkRouter(options?: DeepLinkRouterOptions): DeepLinkRouter {
+    return new DeepLinkRouter(options, (listener) =>
+      this.addDeepLinkListener(listener)
+    );
+  }
+
+  /**
+   * Create a `getInitialURL`/`subscribe` pair for React Navigation's `linking`
+   * prop, backed by the SDK's deep link pipeline
+   *
+   * Links received before the NavigationContainer subscribes are queued, and
+   * React Navigation builds the nested state from its own linking `config`.
+   * Links are acked once handed to React Navigation.
+   * Create it once, outside of components, and call dispose() to stop it.
+   * @param options URL mapping and cold start timeout
+   * @returns Object to spread into `LinkingOptions`
+   */
+  createNavigationLinking(options?: LinkzlyLinkingOptions): LinkzlyLinkingConfig {
+    return createNavigationLinking((listener) => this.addDeepLinkListener(listener), options);
+  }
+
+  /**
+   * Create a handler that maps deep links to navigation stacks and navigates
+   * through a navigation ref, queueing links until the container is ready
+   * @param options Navigation ref and route resolver
+   * @returns Handler; call `start()` and pass `onReady` to NavigationContainer
+   */
+  createNavigationHandler(options: LinkzlyNavigationHandlerOptions): LinkzlyNavigationHandler {
+    return createNavigationHandler((listener) => this.addDeepLinkListener(listener), options);
+  }
+
+  /**
+   * Add a listener for universal link events
+   * @param listener Callback function to handle universal link data
+   * @returns Function to remove the listener
+   */
+  addUniversalLinkListener(listener: UniversalLinkListener): () => void {
+    this.universalLinkListeners.add(listener);
+
+    // Setup native event listener if not already done
+    if (this.universalLinkSubscription === null) {
+      this.universalLinkSubscription = eventEmitter.addListener(
+        'LinkzlyUniversalLinkReceived',
+        (data: UniversalLinkEvent) => {
+          this.universalLinkListeners.forEach((l) => l(data));
+        }
+      );
+    }
+
+    // Return unsubscribe function
+    return () => {
+      this.universalLinkListeners.delete(listener);
+
+      // Remove native listener if no more JS listeners
+      if (
+        this.universalLinkListeners.size === 0 &&
+        this.universalLinkSubscription
+      ) {
+        this.universalLinkSubscription.remove();
+        this.universalLinkSubscription = null;
+      }
+    };
+  }
+
+  /**
+   * Add a listener for SDK state changes (configuration, tracking consent,
+   * visitor ID). Used by the React hooks to re-render on change.
+   * @param listener Callback receiving which piece of state changed
+   * @returns Function to remove the listener
+   */
+  addStateChangeListener(listener: StateChangeListener): () => void {
+    this.stateChangeListeners.add(listener);
+    return () => {
+      this.stateChangeListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Check whether configure() has completed
+   * @returns Whether the SDK is configured
+   */
+  isSDKConfigured(): boolean {
+    return this.isConfigured;
+  }
+
+  /**
+   * Get the on-device history of received deep links, newest first
+   * @param query.since Only links received at or after this time
+   * @param query.limit Maximum number of entries to return
+   * @returns History entries with source, timestamp and attribution IDs
+   */
+  async getDeepLinkHistory(query?: DeepLinkHistoryQuery): Promise<DeepLinkHistoryEntry[]> {
+    return await this.deepLinkHistory.query(query);
+  }
+
+  /**
+   * Clear the on-device deep link history
+   */
+  async clearDeepLinkHistory(): Promise<void> {
+    await this.deepLinkHistory.clear();
+  }
+
+  /**
+   * Remove all event listeners
+   */
+  removeAllListeners(): void {
+    this.deepLinkListeners.clear();
+    this.universalLinkListeners.clear();
+    this.stateChangeListeners.clear();
+    this.attributionUpdateListeners.clear();
+
+    if (this.deepLinkSubscription) {
+      this.deepLinkSubscription.remove();
+      this.deepLinkSubscription = null;
+    }
+
+    if (this.universalLinkSubscription) {
+      this.universalLinkSubscription.remove();
+      this.universalLinkSubscription = null;
+    }
+
+    if (this.linkingSubscription) {
+      this.linkingSubscription.remove();
+      this.linkingSubscription = null;
+    }
+  }
+
+  /**
+   * Setup automatic deep link handling
+   * Captures URLs from the OS (both cold and warm starts)
+   * @private
+   */
+  private setupAutomaticDeepLinking(): void {
+    // Handle cold start - URL that opened the app (once; later setups would
+    // only see the same URL again)
+    if (!this.hasRequestedInitialUrl) {
+      this.hasRequestedInitialUrl = true;
+      this.handleInitialUrl();
+    }
+
+    // Handle warm start - URL opened while app was running/backgrounded
+    if (!this.linkingSubscription) {
+      this.linkingSubscription = Linking.addEventListener('url', (event: { url: string }) => {
+        if (!this.shouldHandleUrl(event.url)) {
+          return;
+        }
+        console.log('[LinkzlySDK] URL event received (warm start):', event.url);
+        this.processDeepLink(event.url, 'warmStart').catch((error) => {
+          console.error('[LinkzlySDK] Error processing URL event:', error);
+        });
+      });
+    }
+  }
+
+  /**
+   * Process the URL that launched the app, if any
+   * @private
+   */
+  private handleInitialUrl(): void {
+    Linking.getInitialURL()
+      .then((url: string | null) => {
+        if (url && this.shouldHandleUrl(url)) {
+          console.log('[LinkzlySDK] Initial URL detected (cold start):', url);
+          this.processDeepLink(url, 'coldStart').catch((error) => {
+            console.error('[LinkzlySDK] Error processing initial URL:', error);
+          });
+        }
+      })
+      .catch((error: Error) => {
+        console.error('[LinkzlySDK] Error getting initial URL:', error);
+      });
+  }
+
+  /**
+   * Process a deep link URL
+   * Follows professional SDK pattern: parse immediately, enrich with backend, notify once
+   * @private
+   */
+  private async processDeepLink(url: string, source: DeepLinkSource): Promise<void> {
+    // If SDK not configured yet, queue URL for processing after configure()
+    // (dedup bookkeeping and filtering happen on replay, once options are known)
+    if (!this.isConfigured) {
+      this.queuePendingUrl(url, source);
+      return;
+    }
+
+    if (!this.shouldHandleUrl(url)) {
+      return;
+    }
+
+    const now = Date.now();
+
+    // Cleanup old processed URLs periodically (prevent memory leaks)
+    this.cleanupOldProcessedUrls(now);
+
+    // Deduplication: Skip if URL was processed recently (within dedup window)
+    if (this.isDuplicateDeepLink(url, now)) {
+      console.log('[LinkzlySDK] URL processed recently, skipping duplicate:', url);
+      return;
+    }
+
+    // Mark URL as being processed
+    this.pendingAttributionUrls.add(url);
+
+    try {
+      // Step 1: Parse URL immediately to extract basic data
+      const immediateData = this.parseUrlToDeepLinkData(url);
+
+      // Step 2: Pass URL to native SDK (stores for backend attribution)
+      // On Android, this may return immediate data; on iOS, it returns null
+      const nativeData = await this.handleUniversalLink(url);
+
+      // Step 3: Merge immediate and native data
+      let mergedData = this.mergeDeepLinkData(immediateData, nativeData);
+
+      // Step 4: Attempt to get backend attribution (with timeout)
+      // Android may already have returned attributed data from handleAppLink
+      const enrichedData: DeepLinkData = nativeData
+        ? { ...mergedData, attributionStatus: 'resolved' }
+        : await this.enrichWithBackendAttribution(mergedData, url);
+
+      // Step 5: Verify signed links, then notify listeners once with final data
+      this.notifyDeepLinkListeners(await this.withValidity(enrichedData), source);
+
+      // Cleanup: Remove from pending set
+      this.pendingAttributionUrls.delete(url);
+
+    } catch (error) {
+      console.error('[LinkzlySDK] Error processing deep link:', error);
+      this.pendingAttributionUrls.delete(url);
+
+      // Fallback: Notify with basic parsed data even on error; no
+      // attribution will follow for it
+      const fallbackData = await this.withValidity(this.parseUrlToDeepLinkData(url));
+      this.notifyDeepLinkListeners({ ...fallbackData, attributionStatus: 'failed' }, source);
+    }
+  }
+
+  /**
+   * Parse URL string into DeepLinkData object
+   * Extracts scheme, host, path, fragment, query parameters, and attribution IDs
+   * @private
+   */
+  private parseUrlToDeepLinkData(url: string): DeepLinkData {
+    let parameters: Record<string, any> = {};
+    let parameterValues: Record<string, string[]> = {};
+    let path = '/';
+    let scheme: string | undefined;
+    let host: string | undefined;
+    let fragment: string | undefined;
+
+    try {
+      const parsed = parseUrl(url);
+      path = parsed.path;
+      scheme = parsed.scheme;
+      host = parsed.host;
+      fragment = parsed.fragment;
+      ({ parameters, parameterValues } = parseQueryString(parsed.query));
+    } catch (error) {
+      console.warn('[LinkzlySDK] Error parsing URL:', error);
+    }
+
+    // Extract smartLinkId and clickId before removing from parameters
+    const smartLinkId = parameters.slid || parameters.smartLinkId || undefined;
+    const clickId = parameters.cid || parameters.clickId || undefined;
+
+    // Remove attribution IDs from parameters to avoid duplication
+    // These are extracted as top-level properties
+    ['slid', 'smartLinkId', 'cid', 'clickId'].forEach((key) => {
+      delete parameters[key];
+      delete parameterValues[key];
+    });
+
+    return {
+      url: url,
+      scheme: scheme,
+      host: host,
+      path: path,
+      fragment: fragment,
+      parameters: parameters,
+      parameterValues: parameterValues,
+      smartLinkId: smartLinkId,
+      clickId: clickId,
+    };
+  }
+
+  /**
+   * Merge two DeepLinkData objects, with second taking precedence
+   * @private
+   */
+  private mergeDeepLinkData(
+    primary: DeepLinkData,
+    secondary: DeepLinkData | null
+  ): DeepLinkData {
+    if (!secondary) {
+      return primary;
+    }
+
+    return {
+      ...primary,
+      url: secondary.url || primary.url,
+      scheme: secondary.scheme || primary.scheme,
+      host: secondary.host || primary.host,
+      path: secondary.path || primary.path,
+      fragment: secondary.fragment || primary.fragment,
+      smartLinkId: secondary.smartLinkId || primary.smartLinkId,
+      clickId: secondary.clickId || primary.clickId,
+      parameters: {
+        ...primary.parameters,
+        ...secondary.parameters, // Secondary parameters override primary
+      },
+      parameterValues: this.mergeParameterValues(primary, secondary),
+    };
+  }
+
+  /**
+   * Keep the multi-value view parsed from the URL, adding any keys that only
+   * the secondary (native) payload knows about
+   * @private
+   */
+  private mergeParameterValues(
+    primary: DeepLinkData,
+    secondary: DeepLinkData
+  ): Record<string, string[]> {
+    const merged: Record<string, string[]> = {
+      ...secondary.parameterValues,
+      ...primary.parameterValues,
+    };
+    Object.keys(secondary.parameters || {}).forEach((key) => {
+      if (!merged[key]) {
+        merged[key] = getParameterValues(secondary, key);
+      }
+    });
+    return merged;
+  }
+
+  /**
+   * Attempt to enrich deep link data with backend attribution
+   * Waits up to BACKEND_ATTRIBUTION_TIMEOUT_MS for the native attribution
+   * event for this URL, so listeners are notified once with the merged data
+   * @private
+   */
+  private enrichWithBackendAttribution(
+    data: DeepLinkData,
+    url: string
+  ): Promise<DeepLinkData> {
+    return new Promise((resolve) => {
+      let subscription: any = null;
+
+      const finish = (result: DeepLinkData) => {
+        clearTimeout(timer);
+        subscription?.remove();
+        resolve(result);
+      };
+
+      const timer = setTimeout(() => {
+        console.log('[LinkzlySDK] Backend attribution timed out for URL:', url);
+        finish({ ...data, attributionStatus: 'timedOut' });
+      }, LinkzlySDK.BACKEND_ATTRIBUTION_TIMEOUT_MS);
+
+      // Native attribution events carry the URL they belong to; events without
+      // one can only be matched when a single URL is awaiting attribution
+      subscription = eventEmitter.addListener(
+        'LinkzlyDeepLinkReceived',
+        (attribution: DeepLinkData) => {
+          const matches = attribution.url
+            ? attribution.url === url
+            : this.pendingAttributionUrls.size === 1;
+          if (!matches) {
+            return;
+          }
+          console.log('[LinkzlySDK] Backend attribution received for URL:', url);
+          finish({
+            ...this.mergeDeepLinkData(data, attribution),
+            attributionStatus: 'resolved',
+          });
+        }
+      );
+    });
+  }
+
+  /**
+   * Check a URL against the configured link filter
+   * Before configure() the filter isn't known yet, so every URL passes
+   * @private
+   */
+  private shouldHandleUrl(url: string): boolean {
+    const filter = this.linkFilter;
+    if (!filter) {
+      return true;
+    }
+
+    const hosts = filter.hosts || [];
+    const schemes = filter.schemes || [];
+    if (hosts.length > 0 || schemes.length > 0) {
+      const { scheme, host } = parseUrl(url);
+      const schemeMatches = !!scheme && schemes.some((allowed) => allowed.toLowerCase() === scheme);
+      const hostMatches = !!host && hosts.some((allowed) => {
+        const pattern = allowed.toLowerCase();
+        return pattern.startsWith('*.')
+          ? host === pattern.slice(2) || host.endsWith(pattern.slice(1))
+          : host === pattern;
+      });
+      if (!schemeMatches && !hostMatches) {
+        return false;
+      }
+    }
+
+    if (filter.shouldHandle) {
+      try {
+        return filter.shouldHandle(url);
+      } catch (error) {
+        console.error('[LinkzlySDK] Error in link filter:', error);
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Queue a URL received before configure(), dropping the oldest when the queue is full
+   * @private
+   */
+  private queuePendingUrl(url: string, source: DeepLinkSource): void {
+    const key = this.getDedupKey(url);
+    if (key !== null && this.pendingUrls.some((pending) => this.getDedupKey(pending.url) === key)) {
+      console.log('[LinkzlySDK] URL already queued, skipping duplicate:', url);
+      return;
+    }
+
+    if (this.pendingUrlLimit === 0) {
+      console.warn('[LinkzlySDK] SDK not configured yet and pending URL queue is disabled, dropping URL:', url);
+      return;
+    }
+
+    console.log('[LinkzlySDK] SDK not configured yet, queueing URL for later processing');
+    this.pendingUrls.push({ url, source });
+    while (this.pendingUrls.length > this.pendingUrlLimit) {
+      const dropped = this.pendingUrls.shift();
+      console.warn('[LinkzlySDK] Pending URL queue is full, dropping oldest URL:', dropped?.url);
+    }
+  }
+
+  /**
+   * Get the dedup key for a URL
+   * @returns The key, or null when deduplication is disabled
+   * @private
+   */
+  private getDedupKey(url: string): string | null {
+    if (!this.deepLinkDedup) {
+      return null;
+    }
+    try {
+      return this.deepLinkDedup.key(url);
+    } catch (error) {
+      console.error('[LinkzlySDK] Error in deep link dedup key function:', error);
+      return url;
+    }
+  }
+
+  /**
+   * Check a URL against the dedup policy, recording it when it isn't a duplicate
+   * @returns true if the URL was already seen within the dedup window
+   * @private
+   */
+  private isDuplicateDeepLink(url: string, now: number): boolean {
+    const key = this.getDedupKey(url);
+    if (key === null || !this.deepLinkDedup) {
+      return false;
+    }
+
+    const lastProcessed = this.processedUrls.get(key);
+    if (lastProcessed !== undefined && now - lastProcessed < this.deepLinkDedup.windowMs) {
+      return true;
+    }
+    this.processedUrls.set(key, now);
+    return false;
+  }
+
+  /**
+   * Cleanup old processed and delivered URLs to prevent memory leaks
+   * Removes dedup entries outside the dedup window and delivered links older than 1 hour
+   * @private
+   */
+  private cleanupOldProcessedUrls(now: number): void {
+    const maxAge = 60 * 60 * 1000; // 1 hour
+    const dedupWindow = this.deepLinkDedup ? this.deepLinkDedup.windowMs : 0;
+    for (const [key, timestamp] of this.processedUrls.entries()) {
+      if (now - timestamp >= dedupWindow) {
+        this.processedUrls.delete(key);
+      }
+    }
+    for (const [url, entry] of this.deliveredDeepLinks.entries()) {
+      if (now - entry.timestamp > maxAge) {
+        this.deliveredDeepLinks.delete(url);
+      }
+    }
+  }
+
+  /**
+   * Subscribe to native deep link events while any JS listener needs them
+   * @private
+   */
+  private ensureDeepLinkSubscription(): void {
+    if (this.deepLinkSubscription === null) {
+      this.deepLinkSubscription = eventEmitter.addListener(
+        'LinkzlyDeepLinkReceived',
+        (data: DeepLinkData) => this.handleNativeDeepLinkEvent(data)
+      );
+    }
+  }
+
+  /**
+   * Remove the native subscription once no JS listener needs it
+   * @private
+   */
+  private releaseDeepLinkSubscription(): void {
+    if (
+      this.deepLinkListeners.size === 0 &&
+      this.attributionUpdateListeners.size === 0 &&
+      this.deepLinkSubscription
+    ) {
+      this.deepLinkSubscription.remove();
+      this.deepLinkSubscription = null;
+    }
+  }
+
+  /**
+   * Handle a LinkzlyDeepLinkReceived event from the native module
+   * @private
+   */
+  private handleNativeDeepLinkEvent(data: DeepLinkData): void {
+    // This event can now come from multiple sources:
+    // 1. Android: Direct native module emission from onNewIntent (NEW)
+    // 2. iOS: handleUniversalLink native response
+    // 3. Both: Backend attribution enrichment
+    // 4. Both: React Native Linking.addEventListener (existing, unreliable on Android)
+
+    // Not a Linkzly link (e.g. an Android intent for an OAuth redirect)
+    if (data.url && !this.shouldHandleUrl(data.url)) {
+      return;
+    }
+
+    // Deduplication: Skip if this URL is currently being processed
+    // (enrichWithBackendAttribution consumes the event)
+    if (data.url && this.pendingAttributionUrls.has(data.url)) {
+      console.log('[LinkzlySDK] Skipping native event for URL being processed:', data.url);
+      return;
+    }
+
+    // iOS only includes the URL when the notification carries one. Without
+    // it the event belongs to the link awaiting attribution or the link
+    // delivered last, not to a new deep link
+    if (!data.url) {
+      if (this.pendingAttributionUrls.size > 0) {
+        console.log('[LinkzlySDK] Skipping native event without URL while a link awaits attribution');
+        return;
+      }
+      const last = this.lastDeepLinkData;
+      if (last?.receivedAt !== undefined && Date.now() - last.receivedAt < LinkzlySDK.ATTRIBUTION_UPDATE_WINDOW_MS) {
+        this.notifyAttributionUpdate(last, data);
+        return;
+      }
+    }
+
+    // Attribution for a link listeners just received: deliver it on the
+    // attribution update channel instead of a second deep link event. Events
+    // that add nothing (e.g. a repeat tap), or arrive after the window (a
+    // new open of the same link), go through the dedup policy below
+    const delivered = data.url ? this.deliveredDeepLinks.get(data.url) : undefined;
+    if (
+      delivered &&
+      Date.now() - delivered.timestamp < LinkzlySDK.ATTRIBUTION_UPDATE_WINDOW_MS &&
+      this.addsAttribution(delivered.data, data)
+    ) {
+      this.notifyAttributionUpdate(delivered.data, data);
+      return;
+    }
+
+    // Check if this URL was just processed via processDeepLink (from Linking.addEventListener)
+    // Marks it as processed otherwise, so Linking.addEventListener doesn't duplicate it
+    if (data.url && this.isDuplicateDeepLink(data.url, Date.now())) {
+      console.log('[LinkzlySDK] Skipping duplicate native event (already processed via Linking):', data.url);
+      return;
+    }
+
+    // Native events typically come from backend attribution (iOS/Android)
+    // or direct intent handling (Android warm start)
+    console.log('[LinkzlySDK] Native deep link event received:', {
+      url: data.url,
+      path: data.path,
+      smartLinkId: data.smartLinkId,
+      clickId: data.clickId,
+    });
+
+    this.withValidity({ ...data, attributionStatus: 'resolved' }).then((verified) => {
+      this.notifyDeepLinkListeners(verified, Platform.OS === 'android' ? 'nativeIntent' : 'universalLink');
+    });
+  }
+
+  /**
+   * Check whether native data carries attribution a delivered link doesn't
+   * have: a new smart link ID or click ID, or new or changed parameters
+   * @private
+   */
+  private addsAttribution(original: DeepLinkData, attribution: DeepLinkData): boolean {
+    if (attribution.smartLinkId && attribution.smartLinkId !== original.smartLinkId) {
+      return true;
+    }
+    if (attribution.clickId && attribution.clickId !== original.clickId) {
+      return true;
+    }
+    const parameters = original.parameters || {};
+    return Object.entries(attribution.parameters || {}).some(([key, value]) =>
+      !Object.prototype.hasOwnProperty.call(parameters, key) ||
+      JSON.stringify(parameters[key]) !== JSON.stringify(value)
+    );
+  }
+
+  /**
+   * Notify attribution update listeners with late attribution for a link
+   * that was already delivered
+   * @private
+   */
+  private notifyAttributionUpdate(original: DeepLinkData, attribution: DeepLinkData): void {
+    const updated: DeepLinkData = {
+      ...this.mergeDeepLinkData(original, attribution),
+      attributionStatus: 'resolved',
+    };
+
+    // Native re-emission of data listeners already have (e.g. Android intents)
+    if (original.attributionStatus === 'resolved' && !this.addsAttribution(original, attribution)) {
+      return;
+    }
+
+    console.log('[LinkzlySDK] Attribution update for delivered deep link:', {
+      url: original.url,
+      smartLinkId: updated.smartLinkId,
+      clickId: updated.clickId,
+    });
+
+    // Later replays and updates build on the enriched data
+    if (this.lastDeepLinkData === original) {
+      this.lastDeepLinkData = updated;
+    }
+    if (original.url) {
+      // Keep the delivery time, so updates don't extend the update window
+      const delivered = this.deliveredDeepLinks.get(original.url);
+      this.deliveredDeepLinks.set(original.url, { data: updated, timestamp: delivered?.timestamp ?? Date.now() });
+      this.deepLinkHistory
+        .updateLatest(original.url, { smartLinkId: updated.smartLinkId, clickId: updated.clickId })
+        .catch((error) => {
+          console.error('[LinkzlySDK] Error updating deep link history:', error);
+        });
+    }
+    this.recordAttributionContext(updated);
+
+    const update: AttributionUpdate = {
+      url: original.url || '',
+      original,
+      updated,
+      smartLinkId: updated.smartLinkId,
+      clickId: updated.clickId,
+      parameters: attribution.parameters || {},
+    };
+    this.attributionUpdateListeners.forEach((listener) => {
+      try {
+        listener(update);
+      } catch (error) {
+        console.error('[LinkzlySDK] Error in attribution update listener:', error);
+      }
+    });
+  }
+
+  /**
+   * Validate and track a store transaction event once per transaction ID
+   * @private
+   */
+  private async trackStoreTransaction(
+    eventName: string,
+    transaction: StoreTransaction,
+    requireOriginal: boolean,
+    extra?: EventParameters,
+    isRefund?: boolean
+  ): Promise<boolean> {
+    const parameters = buildTransactionParameters(transaction, requireOriginal, extra, isRefund);
+    const key = `${eventName}:${transaction.transactionId}`;
+
+    if (!(await this.transactionLedger.claim(key))) {
+      console.log('[LinkzlySDK] Transaction already tracked, skipping duplicate:', transaction.transactionId);
+      return false;
+    }
+
+    try {
+      await this.trackEvent(eventName, parameters);
+    } catch (error) {
+      // Allow a retry of the same transaction
+      await this.transactionLedger.release(key);
+      throw error;
+    }
+    return true;
+  }
+
+  /**
+   * Persist the inviter of an invite link as the referrer, unless one is
+   * already set, and report the referral install
+   * @private
+   */
+  private async attributeReferral(data: DeepLinkData): Promise<void> {
+    const referrer = getReferrerFromDeepLink(data);
+    if (!referrer) {
+      return;
+    }
+
+    try {
+      if (await this.getReferrer()) {
+        return;
+      }
+      await setStoredItem(LinkzlySDK.REFERRER_STORAGE_KEY, referrer);
+      console.log('[LinkzlySDK] Install attributed to inviter:', referrer.inviterId);
+      await this.trackEvent(REFERRAL_INSTALL_EVENT, getReferrerEventParameters(referrer));
+    } catch (error) {
+      console.error('[LinkzlySDK] Error attributing referral:', error);
+    }
+  }
+
+  /**
+   * Attach the signature/expiry/single-use check result when link
+   * verification is configured
+   * @private
+   */
+  private async withValidity(data: DeepLinkData): Promise<DeepLinkData> {
+    if (!this.linkVerifier || !data.url) {
+      return data;
+    }
+    try {
+      return { ...data, validity: await this.linkVerifier.verify(data.url) };
+    } catch (error) {
+      console.error('[LinkzlySDK] Error verifying deep link:', error);
+      return data;
+    }
+  }
+
+  /**
+   * Stamp deep link data with where it came from and when it was received
+   * @private
+   */
+  private withSourceMetadata(data: DeepLinkData, source: DeepLinkSource): DeepLinkData {
+    return {
+      ...data,
+      source,
+      receivedAt: Date.now(),
+      isDeferred: source === 'deferred',
+    };
+  }
+
+  /**
+   * Append a delivered deep link to the persisted history
+   * @private
+   */
+  private recordDeepLinkHistory(data: DeepLinkData): void {
+    this.deepLinkHistory
+      .record({
+        url: data.url,
+        path: data.path,
+        source: data.source || 'warmStart',
+        receivedAt: data.receivedAt || Date.now(),
+        smartLinkId: data.smartLinkId || undefined,
+        clickId: data.clickId || undefined,
+      })
+      .catch((error) => {
+        console.error('[LinkzlySDK] Error recording deep link history:', error);
+      });
+  }
+
+  /**
+   * Notify all deep link listeners with data
+   * Duplicates are filtered before this point by isDuplicateDeepLink
+   * @private
+   */
+  private notifyDeepLinkListeners(linkData: DeepLinkData, source: DeepLinkSource): void {
+    const data = this.withSourceMetadata(linkData, source);
+
+    console.log('[LinkzlySDK] Notifying listeners with deep link data:', {
+      url: data.url,
+      path: data.path,
+      smartLinkId: data.smartLinkId,
+      clickId: data.clickId,
+      paramCount: Object.keys(data.parameters).length,
+    });
+
+    this.lastDeepLinkData = data;
+    this.lastDeepLinkConsumed = false;
+    if (data.url) {
+      this.deliveredDeepLinks.set(data.url, { data, timestamp: Date.now() });
+    }
+    this.recordDeepLinkHistory(data);
+    this.recordAttributionContext(data);
+    this.deepLinkListeners.forEach((listener) => {
+      try {
+        listener(data, () => this.ackDeepLink(data));
+      } catch (error) {
+        console.error('[LinkzlySDK] Error in deep link listener:', error);
+      }
+    });
+  }
+
+  /**
+   * Notify state change listeners
+   * @private
+   */
+  private notifyStateChange(change: StateChange): void {
+    this.stateChangeListeners.forEach((listener) => {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error('[LinkzlySDK] Error in state change listener:', error);
+      }
+    });
+  }
+
+  /**
+   * Enable or disable automatic deep link handling
+   * Disabling it also drops links queued before configure(), since they were
+   * all captured automatically.
+   * @param enabled Whether automatic handling should be enabled
+   */
+  setAutoHandleDeepLinks(enabled: boolean): void {
+    if (this.isAutoHandlingEnabled === enabled) {
+      return;
+    }
+
+    this.isAutoHandlingEnabled = enabled;
+
+    if (enabled) {
+      this.setupAutomaticDeepLinking();
+    } else {
+      // Remove automatic listeners
+      if (this.linkingSubscription) {
+        this.linkingSubscription.remove();
+        this.linkingSubscription = null;
+      }
+      this.pendingUrls = [];
+    }
+  }
+
+  /**
+   * Set how many deep links received before configure() are queued
+   * They are delivered in arrival order once configure() completes; when the
+   * queue is full the oldest link is dropped. Call before configure() to take effect.
+   * @param limit Maximum number of queued links; 0 disables queueing (default: 10)
+   */
+  setPendingDeepLinkLimit(limit: number): void {
+    this.pendingUrlLimit = Math.max(0, Math.floor(limit));
+    while (this.pendingUrls.length > this.pendingUrlLimit) {
+      this.pendingUrls.shift();
+    }
+  }
+
+  /**
+   * Check if automatic deep link handling is enabled
+   * @returns Whether automatic handling is enabled
+   */
+  isAutoHandleDeepLinksEnabled(): boolean {
+    return this.isAutoHandlingEnabled;
+  }
+}
+
+/**
+ * Debug utilities for testing Linkzly SDK batching behavior
+ * Only available when the consuming app is in DEBUG mode
+ *
+ * These methods wrap the native SDK debug APIs:
+ * - iOS: LinkzlySDKDebug (only available in #if DEBUG)
+ * - Android: LinkzlySDKDebug (checks ApplicationInfo.FLAG_DEBUGGABLE)
+ */
+class LinkzlySDKDebugClass {
+  /**
+   * Set batching strategy for testing
+   *
+   * @param strategy - Strategy string:
+   *   - "all" - Batch ALL events (install, open, purchase, custom)
+   *   - "smart" - Smart batching: only custom events (DEFAULT)
+   *   - "instant" - Send ALL events instantly (no batching)
+   *   - "custom" - Same as "smart"
+   */
+  async setBatchingStrategy(strategy: BatchingStrategy): Promise<void> {
+    await LinkzlyReactNative.debugSetBatchingStrategy(strategy);
+  }
+
+  /**
+   * Set batch size for testing
+   *
+   * @param size - Number of events per batch (1-100)
+   */
+  async setBatchSize(size: number): Promise<void> {
+    if (size < 1 || size > 100) {
+      throw new Error('Batch size must be between 1 and 100');
+    }
+    await LinkzlyReactNative.debugSetBatchSize(size);
+  }
+
+  /**
+   * Set flush interval for testing
+   *
+   * @param intervalSeconds - Flush interval in seconds (10-300)
+   */
+  async setFlushInterval(intervalSeconds: number): Promise<void> {
+    if (intervalSeconds < 10 || intervalSeconds > 300) {
+      throw new Error('Flush interval must be between 10 and 300 seconds');
+    }
+    await LinkzlyReactNative.debugSetFlushInterval(intervalSeconds);
+  }
+
+  /**
+   * Simulate server config by setting all debug overrides at once
+   *
+   * This allows testing different batch configurations before the backend
+   * implementation is complete.
+   *
+   * @param config - Configuration object
+   * @param config.batchSize - Simulated batch size (1-100)
+   * @param config.flushInterval - Simulated flush interval in seconds (10-300)
+   * @param config.ttl - Config TTL in seconds (kept for API compatibility)
+   * @param config.strategy - Optional strategy override ("all", "smart", "instant")
+   */
+  async simulateServerConfig(config: {
+    batchSize: number;
+    flushInterval: number;
+    ttl?: number;
+    strategy?: BatchingStrategy;
+  }): Promise<void> {
+    if (config.batchSize < 1 || config.batchSize > 100) {
+      throw new Error('Batch size must be between 1 and 100');
+    }
+    if (config.flushInterval < 10 || config.flushInterval > 300) {
+      throw new Error('Flush interval must be between 10 and 300 seconds');
+    }
+    await LinkzlyReactNative.debugSimulateServerConfig(
+      config.batchSize,
+      config.flushInterval,
+      config.ttl ?? 300,
+      config.strategy ?? null
+    );
+  }
+
+  /**
+   * Reset all debug overrides
+   *
+   * Clears all debug configuration, returning SDK to production defaults
+   */
+  async resetDebugConfig(): Promise<void> {
+    await LinkzlyReactNative.debugResetConfig();
+  }
+
+  /**
+   * Print current debug config status (logs to native console)
+   */
+  async printDebugConfig(): Promise<void> {
+    await LinkzlyReactNative.debugPrintConfig();
+  }
+
+  /**
+   * Get current debug configuration
+   *
+   * @returns Current debug config or null if not available
+   */
+  async getDebugConfig(): Promise<DebugBatchConfig | null> {
+    return await LinkzlyReactNative.debugGetConfig();
+  }
+
+  /**
+   * Get the number of pending events in the queue
+   *
+   * @returns Number of pending events
+   */
+  async getPendingEventCount(): Promise<number> {
+    return await LinkzlyReactNative.getPendingEventCount();
+  }
+
+  /**
+   * Flush all pending events immediately
+   *
+   * @returns Promise resolving to true if successful
+   */
+  async flushEvents(): Promise<boolean> {
+    const result = await LinkzlyReactNative.flushEvents();
+    return result.success || false;
+  }
+}
+
+// Export singleton instances
+const linkzlySDK = new LinkzlySDK();
+
+/**
+ * Debug utilities for testing batch event processing
+ * @example
+ * ```typescript
+ * import LinkzlySDK, { LinkzlyDebug } from '@linkzly/react-native-sdk';
+ *
+ * // Test batch all strategy
+ * await LinkzlyDebug.setBatchingStrategy('all');
+ *
+ * // Set custom batch size
+ * await LinkzlyDebug.setBatchSize(5);
+ *
+ * // Simulate server config
+ * await LinkzlyDebug.simulateServerConfig({
+ *   batchSize: 10,
+ *   flushInterval: 60,
+ *   strategy: 'smart'
+ * });
+ *
+ * // Reset to defaults
+ * await LinkzlyDebug.resetDebugConfig();
+ * ```
+ */
+export const LinkzlyDebug = new LinkzlySDKDebugClass();
+
+export default linkzlySDK;
@@ -0,0 +1,136 @@
+import { NativeModules } from 'react-native';
+
+/**
+ * Persistent key-value storage for SDK state kept on the JS side
+ *
+ * Values are JSON-encoded and stored by the native module (UserDefaults on
+ * iOS, SharedPreferences on Android). When the installed native build doesn't
+ * expose the storage methods yet, values are kept in memory for the session.
+ */
+
+const nativeModule = NativeModules.LinkzlyReactNative;
+const memoryStore: Map<string, string> = new Map();
+let hasWarnedAboutFallback = false;
+
+function hasNativeStorage(): boolean {
+  const available = Boolean(
+    nativeModule &&
+    nativeModule.getStorageItem &&
+    nativeModule.setStorageItem &&
+    nativeModule.removeStorageItem
+  );
+  if (!available && !hasWarnedAboutFallback) {
+    hasWarnedAboutFallback = true;
+    console.warn(
+      '[LinkzlySDK] Native storage is not available; persisted SDK state will only last for this session. Rebuild the app after updating the SDK.'
+    );
+  }
+  return available;
+}
+
+/**
+ * Read and decode a stored value
+ * @returns The stored value, or null if missing or unreadable
+ */
+export async function getStoredItem<T>(key: string): Promise<T | null> {
+  try {
+    const raw: string | null = hasNativeStorage()
+      ? await nativeModule.getStorageItem(key)
+      : (memoryStore.get(key) ?? null);
+    return raw === null || raw === undefined ? null : (JSON.parse(raw) as T);
+  } catch (error) {
+    console.warn('[LinkzlySDK] Error reading stored value:', key, error);
+    return null;
+  }
+}
+
+/**
+ * Encode and store a value
+ */
+export async function setStoredItem<T>(key: string, value: T): Promise<void> {
+  const raw = JSON.stringify(value);
+  if (hasNativeStorage()) {
+    await nativeModule.setStorageItem(key, raw);
+  } else {
+    memoryStore.set(key, raw);
+  }
+}
+
+/**
+ * Remove a stored value
+ */
+export async function removeStoredItem(key: string): Promise<void> {
+  if (hasNativeStorage()) {
+    await nativeModule.removeStorageItem(key);
+  } else {
+    memoryStore.delete(key);
+  }
+}
+
+/**
+ * A JSON value kept under one storage key and cached after the first read
+ *
+ * Tasks passed to `serialize` run one at a time in call order, so
+ * read-modify-write sequences can't overwrite each other; call `load` and
+ * `save` from inside them. Write failures are logged and the cached value
+ * stays current for the session.
+ */
+export class StoredValue<T> {
+  private value: T | undefined;
+  private isLoaded = false;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param key Storage key
+   * @param defaultValue Returns the value used when nothing is stored
+   * @param description What the value holds, for error logs
+   */
+  constructor(
+    private readonly key: string,
+    private readonly defaultValue: () => T,
+    private readonly description: string
+  ) {}
+
+  /**
+   * Run a task after all previously queued tasks have finished
+   */
+  serialize<R>(task: () => Promise<R>): Promise<R> {
+    const run = this.pending.then(task);
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * The current value, read from storage on first use
+   */
+  async load(): Promise<T> {
+    if (!this.isLoaded) {
+      const stored = await getStoredItem<T>(this.key);
+      this.value = stored ?? this.defaultValue();
+      this.isLoaded = true;
+    }
+    return this.value as T;
+  }
+
+  /**
+   * Replace the value and store it
+   */
+  async save(value: T): Promise<void> {
+    this.value = value;
+    this.isLoaded = true;
+    await setStoredItem(this.key, value).catch((error) => {
+      console.error(`[LinkzlySDK] Error storing ${this.description}:`, error);
+    });
+  }
+
+  /**
+   * Reset to the default value and remove the stored one
+   */
+  async clear(): Promise<void> {
+    this.value = this.defaultValue();
+    this.isLoaded = true;
+    await removeStoredItem(this.key).catch((error) => {
+      console.error(`[LinkzlySDK] Error clearing ${this.description}:`, error);
+    });
+  }
+}
@@ -0,0 +1,194 @@
+import { Platform } from 'react-native';
+import type { EventParameters } from './sdk';
+import {
+  PurchaseValidationError,
+  PurchaseValidationIssue,
+  validatePurchase,
+} from './purchase';
+import { StoredValue } from './storage';
+
+/**
+ * Store-backed subscription and in-app purchase events
+ *
+ * Each event carries the store transaction ID. Transactions already tracked
+ * on this device (e.g. replayed when purchases are restored) are skipped, so
+ * revenue isn't counted twice.
+ */
+
+export interface StoreTransaction {
+  /** Store product ID, e.g. "premium_monthly" */
+  productId: string;
+  /** Store transaction ID (App Store transactionId / Play orderId) */
+  transactionId: string;
+  /** First transaction of the subscription (App Store originalTransactionId / Play purchase token) */
+  originalTransactionId?: string;
+  /** Store the transaction came from (default: the current platform's store) */
+  store?: 'app_store' | 'play_store';
+  /** Price in decimal currency units */
+  price?: number;
+  /** ISO 4217 currency code, required with price */
+  currency?: string;
+  /** Additional custom parameters */
+  parameters?: EventParameters;
+}
+
+export interface SubscriptionStart extends StoreTransaction {
+  /** Billing period in ISO 8601 duration format, e.g. "P1M" */
+  period?: string;
+  /** Whether the subscription starts with a free trial */
+  isTrial?: boolean;
+}
+
+export interface SubscriptionRenewal extends StoreTransaction {
+  originalTransactionId: string;
+  period?: string;
+}
+
+export interface TrialConversion extends StoreTransaction {
+  originalTransactionId: string;
+  period?: string;
+}
+
+/**
+ * Refunded transaction; price is the refunded amount, given as a positive
+ * number and sent as negative revenue
+ */
+export interface Refund extends StoreTransaction {
+  reason?: string;
+}
+
+export const SUBSCRIPTION_EVENT_NAMES = {
+  subscriptionStart: 'subscription_start',
+  renewal: 'subscription_renewal',
+  trialConversion: 'trial_conversion',
+  refund: 'refund',
+} as const;
+
+/**
+ * Validate a store transaction and build its event parameters
+ * @param requireOriginal Whether originalTransactionId is required
+ * @param isRefund Send the revenue negated, so summing revenue across events
+ * nets refunds out
+ * @throws PurchaseValidationError with every issue found
+ */
+export function buildTransactionParameters(
+  transaction: StoreTransaction & { period?: string; isTrial?: boolean },
+  requireOriginal: boolean,
+  extra: EventParameters = {},
+  isRefund = false
+): EventParameters {
+  const issues: PurchaseValidationIssue[] = [];
+  const requireString = (field: keyof StoreTransaction, value: unknown) => {
+    if (typeof value !== 'string' || !value) {
+      issues.push({
+        field,
+        code: value === undefined ? 'missing' : 'invalid_type',
+        message: `${field} must be a non-empty string`,
+        received: value,
+      });
+    }
+  };
+  requireString('productId', transaction?.productId);
+  requireString('transactionId', transaction?.transactionId);
+  if (requireOriginal || transaction?.originalTransactionId !== undefined) {
+    requireString('originalTransactionId', transaction?.originalTransactionId);
+  }
+
+  let revenue: EventParameters = {};
+  if (transaction?.price !== undefined || transaction?.currency !== undefined) {
+    const result = validatePurchase({
+      currency: transaction.currency as string,
+      amount: transaction.price,
+    });
+    if (result.success) {
+      const {
+        currency,
+        amount,
+        revenue: decimal,
+        revenue_minor,
+      } = result.value;
+      // 0 - x rather than -x, so a zero price isn't sent as -0
+      const sign = (value: number) => (isRefund ? 0 - value : value);
+      revenue = {
+        currency,
+        amount: sign(amount),
+        revenue: sign(decimal),
+        revenue_minor: sign(revenue_minor),
+      };
+    } else {
+      result.error.issues.forEach((issue) => {
+        issues.push(
+          issue.field === 'amount'
+            ? {
+                ...issue,
+                field: 'price',
+                message: issue.message.replace(/^amount( or items)?/, 'price'),
+              }
+            : issue
+        );
+      });
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new PurchaseValidationError(issues);
+  }
+
+  return {
+    ...transaction.parameters,
+    ...extra,
+    ...revenue,
+    product_id: transaction.productId,
+    transaction_id: transaction.transactionId,
+    ...(transaction.originalTransactionId
+      ? { original_transaction_id: transaction.originalTransactionId }
+      : {}),
+    store:
+      transaction.store || (Platform.OS === 'ios' ? 'app_store' : 'play_store'),
+    ...(transaction.period !== undefined ? { period: transaction.period } : {}),
+    ...(transaction.isTrial !== undefined
+      ? { is_trial: transaction.isTrial }
+      : {}),
+  };
+}
+
+const MAX_TRACKED_TRANSACTIONS = 1000;
+
+/**
+ * Persisted record of transactions already tracked on this device
+ */
+export class TransactionLedger {
+  private keys = new StoredValue<string[]>(
+    'tracked_transactions',
+    () => [],
+    'tracked transactions'
+  );
+
+  /**
+   * Record a transaction unless it was already tracked
+   * @returns false if the transaction was already tracked
+   */
+  claim(key: string): Promise<boolean> {
+    return this.keys.serialize(async () => {
+      const keys = await this.keys.load();
+      if (keys.includes(key)) {
+        return false;
+      }
+      await this.save([...keys, key]);
+      return true;
+    });
+  }
+
+  /**
+   * Forget a transaction, e.g. when sending its event failed
+   */
+  release(key: string): Promise<void> {
+    return this.keys.serialize(async () => {
+      await this.save((await this.keys.load()).filter((k) => k !== key));
+    });
+  }
+
+  private save(keys: string[]): Promise<void> {
+    return this.keys.save(keys.slice(-MAX_TRACKED_TRANSACTIONS));
+  }
+}
@@ -0,0 +1,119 @@
+import type { EventParameters } from './sdk';
+import { StoredValue } from './storage';
+
+/**
+ * Properties attached to every tracked event
+ *
+ * Session properties last until the app is killed; persisted ones are
+ * restored on the next launch. A key lives in one of the two at a time, so
+ * re-registering it with the other persistence moves it.
+ */
+
+export interface SuperPropertyOptions {
+  /** Keep the properties across app launches (default: false) */
+  persist?: boolean;
+}
+
+export class SuperProperties {
+  private persisted = new StoredValue<EventParameters>(
+    'super_properties',
+    () => ({}),
+    'super properties'
+  );
+  private session: EventParameters = {};
+
+  /**
+   * Set properties, replacing existing values
+   */
+  register(
+    properties: EventParameters,
+    options: SuperPropertyOptions = {}
+  ): Promise<void> {
+    return this.mutate(() => properties, options);
+  }
+
+  /**
+   * Set only the properties that aren't registered yet
+   */
+  registerOnce(
+    properties: EventParameters,
+    options: SuperPropertyOptions = {}
+  ): Promise<void> {
+    return this.mutate((current) => {
+      const added: EventParameters = {};
+      Object.entries(properties).forEach(([key, value]) => {
+        if (!(key in current)) {
+          added[key] = value;
+        }
+      });
+      return added;
+    }, options);
+  }
+
+  /**
+   * Remove a property, persisted or not
+   */
+  unregister(name: string): Promise<void> {
+    return this.persisted.serialize(async () => {
+      delete this.session[name];
+      const persisted = await this.persisted.load();
+      if (name in persisted) {
+        const rest = { ...persisted };
+        delete rest[name];
+        await this.persisted.save(rest);
+      }
+    });
+  }
+
+  /**
+   * Remove all properties
+   */
+  clear(): Promise<void> {
+    return this.persisted.serialize(async () => {
+      this.session = {};
+      await this.persisted.clear();
+    });
+  }
+
+  /**
+   * All registered properties, after pending changes are applied
+   */
+  get(): Promise<EventParameters> {
+    return this.persisted.serialize(async () => ({
+      ...(await this.persisted.load()),
+      ...this.session,
+    }));
+  }
+
+  private mutate(
+    select: (current: EventParameters) => EventParameters,
+    options: SuperPropertyOptions
+  ): Promise<void> {
+    return this.persisted.serialize(async () => {
+      const persisted = await this.persisted.load();
+      const properties = select({ ...persisted, ...this.session });
+      const keys = Object.keys(properties);
+      if (keys.length === 0) {
+        return;
+      }
+
+      const session = { ...this.session };
+      const nextPersisted = { ...persisted };
+      keys.forEach((key) => {
+        delete session[key];
+        delete nextPersisted[key];
+      });
+      if (options.persist) {
+        this.session = session;
+        await this.persisted.save({ ...nextPersisted, ...properties });
+      } else {
+        this.session = { ...session, ...properties };
+        if (
+          Object.keys(nextPersisted).length !== Object.keys(persisted).length
+        ) {
+          await this.persisted.save(nextPersisted);
+        }
+      }
+    });
+  }
+}
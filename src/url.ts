@@ -0,0 +1,202 @@
+/**
+ * URL parsing helpers used by the deep link pipeline
+ *
+ * Implemented with plain string handling (RFC 3986 component split) so it runs
+ * in Hermes and JSC without relying on a `URL` / `URLSearchParams` polyfill.
+ */
+
+export interface ParsedUrl {
+  /** Lower-cased scheme without the trailing colon (e.g. "https", "myapp") */
+  scheme?: string;
+  /** Lower-cased host without userinfo or port */
+  host?: string;
+  /** Port, if one was specified in the authority */
+  port?: string;
+  /** Path component (still percent-encoded), always starting with "/" */
+  path: string;
+  /** Raw query string without the leading "?" */
+  query?: string;
+  /** Decoded fragment without the leading "#" */
+  fragment?: string;
+}
+
+// Component split from RFC 3986, Appendix B
+const URI_REGEX =
+  /^(?:([^:/?#]+):)?(?:\/\/([^/?#]*))?([^?#]*)(?:\?([^#]*))?(?:#(.*))?$/;
+
+const WEB_SCHEMES = ['http', 'https'];
+
+/**
+ * Decode a URI component, returning the raw input when it is malformed
+ * (e.g. a stray "%" in a campaign value)
+ */
+export function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch (e) {
+    return value;
+  }
+}
+
+/**
+ * Decode a single application/x-www-form-urlencoded query component
+ * ("+" is treated as a space)
+ */
+function decodeQueryComponent(value: string): string {
+  return safeDecode(value.replace(/\+/g, ' '));
+}
+
+/**
+ * Split a URL into its components
+ *
+ * Custom scheme URLs (e.g. `myapp://products/42`) have no real host, so the
+ * authority is treated as the first path segment and the path becomes
+ * `/products/42`. The authority is still reported in `host`.
+ */
+export function parseUrl(url: string): ParsedUrl {
+  const match = URI_REGEX.exec(url.trim());
+  if (!match) {
+    return { path: '/' };
+  }
+
+  const [, rawScheme, authority, rawPath, query, fragment] = match;
+  const scheme = rawScheme ? rawScheme.toLowerCase() : undefined;
+
+  let host: string | undefined;
+  let port: string | undefined;
+  if (authority) {
+    // Drop userinfo ("user:pass@") and split off the port
+    const hostPort = authority.slice(authority.lastIndexOf('@') + 1);
+    const portMatch = /^(.*?)(?::(\d*))?$/.exec(hostPort);
+    host = portMatch && portMatch[1] ? portMatch[1].toLowerCase() : undefined;
+    port = portMatch && portMatch[2] ? portMatch[2] : undefined;
+  }
+
+  let path = rawPath || '';
+  if (host && scheme && !WEB_SCHEMES.includes(scheme)) {
+    path = '/' + host + path;
+  }
+  if (!path.startsWith('/')) {
+    path = '/' + path;
+  }
+
+  return {
+    scheme,
+    host,
+    port,
+    path,
+    query,
+    fragment: fragment !== undefined ? safeDecode(fragment) : undefined,
+  };
+}
+
+export interface ParsedQuery {
+  /**
+   * Single-value view of the query. Repeated keys keep their last value;
+   * keys using array syntax (`ids[]=1&ids[]=2`) are exposed as arrays under
+   * the name without brackets.
+   */
+  parameters: Record<string, string | string[]>;
+  /** Every value received for each key, in order of appearance */
+  parameterValues: Record<string, string[]>;
+}
+
+const ARRAY_KEY_SUFFIX = '[]';
+
+/**
+ * Parse a query string into single-value and multi-value maps
+ *
+ * - Values may contain "=" (base64 tokens, nested redirect URLs)
+ * - "+" is decoded as a space
+ * - Empty-valued keys (`?promo=` or `?promo`) are kept with an empty string
+ * - Repeated keys (`?tag=a&tag=b`) keep every value in `parameterValues`
+ */
+export function parseQueryString(query: string | undefined): ParsedQuery {
+  // No prototype, so keys like "constructor" or "__proto__" are plain entries
+  const parameters: Record<string, string | string[]> = Object.create(null);
+  const parameterValues: Record<string, string[]> = Object.create(null);
+  const arrayKeys = new Set<string>();
+  if (!query) {
+    return { parameters, parameterValues };
+  }
+
+  query.split('&').forEach((pair: string) => {
+    if (!pair) {
+      return;
+    }
+    const separatorIndex = pair.indexOf('=');
+    const rawKey = separatorIndex === -1 ? pair : pair.slice(0, separatorIndex);
+    const rawValue =
+      separatorIndex === -1 ? '' : pair.slice(separatorIndex + 1);
+    let key = decodeQueryComponent(rawKey);
+    const value = decodeQueryComponent(rawValue);
+
+    if (key.endsWith(ARRAY_KEY_SUFFIX)) {
+      key = key.slice(0, -ARRAY_KEY_SUFFIX.length);
+      arrayKeys.add(key);
+    }
+    if (!key) {
+      return;
+    }
+
+    if (!parameterValues[key]) {
+      parameterValues[key] = [];
+    }
+    parameterValues[key].push(value);
+    parameters[key] = arrayKeys.has(key) ? [...parameterValues[key]] : value;
+  });
+
+  return { parameters, parameterValues };
+}
+
+/**
+ * Build a query string that parseQueryString() parses back to the same
+ * parameters
+ *
+ * Array values use array syntax (`ids[]=1&ids[]=2`), so single-element arrays
+ * stay arrays.
+ */
+export function buildQueryString(
+  parameters: Record<string, string | string[]>
+): string {
+  const pairs: string[] = [];
+  Object.entries(parameters).forEach(([key, value]) => {
+    if (Array.isArray(value)) {
+      const arrayKey = encodeURIComponent(key + ARRAY_KEY_SUFFIX);
+      value.forEach((item) => {
+        pairs.push(`${arrayKey}=${encodeURIComponent(item)}`);
+      });
+    } else {
+      pairs.push(`${encodeURIComponent(key)}=${encodeURIComponent(value)}`);
+    }
+  });
+  return pairs.join('&');
+}
+
+/**
+ * Get every value of a query parameter from parsed deep link data
+ *
+ * Falls back to the single-value `parameters` entry for payloads that don't
+ * carry `parameterValues` (e.g. data delivered by the native SDKs).
+ */
+export function getParameterValues(
+  data: {
+    parameters: Record<string, any>;
+    parameterValues?: Record<string, string[]>;
+  },
+  key: string
+): string[] {
+  const hasOwn = (map: object | undefined) =>
+    !!map && Object.prototype.hasOwnProperty.call(map, key);
+  const values = hasOwn(data.parameterValues)
+    ? data.parameterValues![key]
+    : undefined;
+  if (values) {
+    return [...values];
+  }
+  const value = hasOwn(data.parameters) ? data.parameters[key] : undefined;
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return Array.isArray(value) ? value.map(String) : [String(value)];
+}
@@ -0,0 +1,141 @@
+import { hmacSha256Hex, timingSafeEqual } from './crypto';
+import { StoredValue } from './storage';
+import { parseQueryString, parseUrl } from './url';
+
+/**
+ * Signed deep link verification
+ *
+ * A signed link carries `sig`, the hex HMAC-SHA256 of its canonical form:
+ * the path, "?", then every other query parameter sorted by name (repeated
+ * values in order of appearance) as `encodeURIComponent(name)=encodeURIComponent(value)`
+ * joined with "&". The signed parameters may include `exp` (expiry in seconds
+ * since epoch) and `single_use=1`.
+ */
+
+/**
+ * Result of verifying a deep link
+ * - "valid" - signature matches, not expired and not used before
+ * - "unsigned" - the link has no `sig` parameter
+ * - "invalidSignature" - the link was modified or signed with another key
+ * - "expired" - the signed `exp` time has passed
+ * - "alreadyUsed" - a single-use link that was already opened on this device
+ */
+export type DeepLinkValidityStatus =
+  'valid' | 'unsigned' | 'invalidSignature' | 'expired' | 'alreadyUsed';
+
+export interface DeepLinkValidity {
+  status: DeepLinkValidityStatus;
+  /** Expiry from the signed `exp` parameter (ms since epoch) */
+  expiresAt?: number;
+  /** Whether the signed link is single-use */
+  singleUse: boolean;
+}
+
+export interface LinkVerificationOptions {
+  /** HMAC key the links are signed with */
+  key: string;
+  /** Tolerance for device clock drift when checking `exp` in ms (default: 0) */
+  clockSkewMs?: number;
+}
+
+const SIGNATURE_PARAMETER = 'sig';
+const EXPIRY_PARAMETER = 'exp';
+const SINGLE_USE_PARAMETER = 'single_use';
+const MAX_USED_SIGNATURES = 500;
+
+interface UsedSignature {
+  sig: string;
+  /** Expiry of the link; the entry can be dropped after it (ms since epoch) */
+  expiresAt?: number;
+}
+
+/**
+ * Build the string a link's signature is computed over
+ */
+export function getSignedLinkPayload(url: string): string {
+  const parsed = parseUrl(url);
+  const { parameterValues } = parseQueryString(parsed.query);
+  const query = Object.keys(parameterValues)
+    .filter((key) => key !== SIGNATURE_PARAMETER)
+    .sort()
+    .map((key) =>
+      parameterValues[key]
+        .map(
+          (value) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`
+        )
+        .join('&')
+    )
+    .join('&');
+  return `${parsed.path}?${query}`;
+}
+
+/**
+ * Verifies signed links and tracks single-use links on-device
+ */
+export class LinkVerifier {
+  private usedSignatures = new StoredValue<UsedSignature[]>(
+    'used_link_signatures',
+    () => [],
+    'used link signatures'
+  );
+
+  constructor(private readonly options: LinkVerificationOptions) {}
+
+  /**
+   * Verify a link; a valid single-use link is marked as used
+   */
+  verify(url: string): Promise<DeepLinkValidity> {
+    // Serialized so two deliveries of a single-use link can't both pass
+    return this.usedSignatures.serialize(() => this.check(url));
+  }
+
+  private async check(url: string): Promise<DeepLinkValidity> {
+    const { parameters } = parseQueryString(parseUrl(url).query);
+    const sig = parameters[SIGNATURE_PARAMETER];
+    const exp = Number(parameters[EXPIRY_PARAMETER]);
+    const expiresAt =
+      parameters[EXPIRY_PARAMETER] !== undefined && Number.isFinite(exp)
+        ? exp * 1000
+        : undefined;
+    const singleUse =
+      parameters[SINGLE_USE_PARAMETER] === '1' ||
+      parameters[SINGLE_USE_PARAMETER] === 'true';
+
+    if (typeof sig !== 'string' || !sig) {
+      return { status: 'unsigned', singleUse: false };
+    }
+
+    const expected = hmacSha256Hex(this.options.key, getSignedLinkPayload(url));
+    if (!timingSafeEqual(expected, sig.toLowerCase())) {
+      return { status: 'invalidSignature', singleUse: false };
+    }
+
+    if (
+      expiresAt !== undefined &&
+      Date.now() > expiresAt + (this.options.clockSkewMs || 0)
+    ) {
+      return { status: 'expired', expiresAt, singleUse };
+    }
+
+    if (singleUse) {
+      const used = await this.usedSignatures.load();
+      if (used.some((entry) => entry.sig === expected)) {
+        return { status: 'alreadyUsed', expiresAt, singleUse };
+      }
+      await this.markUsed({ sig: expected, expiresAt });
+    }
+
+    return { status: 'valid', expiresAt, singleUse };
+  }
+
+  private async markUsed(entry: UsedSignature): Promise<void> {
+    const now = Date.now();
+    // Expired links fail verification anyway, so their entries can go
+    const used = (await this.usedSignatures.load()).filter(
+      (existing) => existing.expiresAt === undefined || existing.expiresAt > now
+    );
+    await this.usedSignatures.save(
+      [...used, entry].slice(-MAX_USED_SIGNATURES)
+    );
+  }
+}